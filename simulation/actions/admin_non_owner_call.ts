@@ -0,0 +1,47 @@
+import {Actor, Snapshot} from "@svylabs/ilumina";
+import type {RunContext} from "@svylabs/ilumina";
+import {ethers} from "ethers";
+import { OwnerOnlyCall, OwnerOnlyCallAction, argumentsFor, contractWiring } from "./admin_owner_only_call";
+
+// Owner-only functions besides those of Ownable, by deployContracts key
+const OWNER_ONLY_METHODS: Record<string, string[]> = {
+    mockPriceOracle: ["setPrice"],
+};
+const OWNABLE_METHODS = ["setAddresses", "transferOwnership", "renounceOwnership"];
+
+/**
+ * Has an actor that does not own a contract call one of its owner-only functions, from that actor's
+ * signer, which also pays the gas. Every such call must revert with OwnableUnauthorizedAccount.
+ */
+export class NonOwnerCallAction extends OwnerOnlyCallAction {
+    constructor(contracts: Record<string, ethers.Contract>, actors: Actor[]) {
+        super("NonOwnerCallAction", contracts, actors);
+    }
+
+    protected pickCall(context: RunContext, actor: Actor, currentSnapshot: Snapshot): OwnerOnlyCall | undefined {
+        const calls: { key: string; method: string }[] = [];
+        for (const key of Object.keys(currentSnapshot.contractSnapshot)) {
+            const contract = this.contracts[key];
+            for (const method of [...OWNABLE_METHODS, ...(OWNER_ONLY_METHODS[key] ?? [])]) {
+                if (contract?.interface.hasFunction(method)) {
+                    calls.push({ key, method });
+                }
+            }
+        }
+        if (calls.length === 0) {
+            context.log.info(`NonOwnerCallAction: no deployed contract has an owner-only function.`);
+            return undefined;
+        }
+        const { key, method } = calls[Number(context.prng.next() % BigInt(calls.length))];
+        const owner = contractWiring(currentSnapshot, key).owner.toLowerCase();
+        const callers = this.actors.filter(other =>
+            other.account.address !== actor.account.address && other.account.address.toLowerCase() !== owner);
+        if (callers.length === 0) {
+            context.log.info(`NonOwnerCallAction: every other actor owns ${key}.`);
+            return undefined;
+        }
+        const caller = callers[Number(context.prng.next() % BigInt(callers.length))].account.address;
+        const fragment = this.contracts[key].interface.getFunction(method)!;
+        return { contract: key, method, args: argumentsFor(fragment, caller), caller };
+    }
+}
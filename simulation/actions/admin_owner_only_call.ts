@@ -0,0 +1,187 @@
+import {Action, Actor, Snapshot} from "@svylabs/ilumina";
+import type {RunContext, ExecutionReceipt} from "@svylabs/ilumina";
+import {ethers} from "ethers";
+import {expect} from "chai";
+import { ContractWiring } from "../contracts/wiring_snapshot";
+import { noTransactionReceipt } from "../snapshots/block_context";
+import { sameAddress } from "./stablebasecdp_transfer_safe";
+
+// Sent with a fixed limit: estimating the gas of a call that reverts fails before anything is mined
+const OWNER_ONLY_CALL_GAS_LIMIT = 1_000_000n;
+
+/**
+ * An owner-only call to attempt, and who attempts it.
+ */
+export interface OwnerOnlyCall {
+    /** The deployContracts key of the contract called. */
+    contract: string;
+    method: string;
+    args: any[];
+    /** The address of the actor whose signer sends the call. */
+    caller: string;
+}
+
+/**
+ * Arguments for any function that only the owner passes: every address is the caller's,
+ * every number 1 and every flag true.
+ */
+export function argumentsFor(fragment: ethers.FunctionFragment, caller: string): any[] {
+    return fragment.inputs.map(input => {
+        if (input.type === "address") {
+            return caller;
+        }
+        if (input.type.startsWith("uint") || input.type.startsWith("int")) {
+            return 1n;
+        }
+        if (input.type === "bool") {
+            return true;
+        }
+        throw new Error(`No argument for ${fragment.name}(${input.type} ${input.name})`);
+    });
+}
+
+/**
+ * The wiring of a contract in a snapshot.
+ */
+export function contractWiring(snapshot: Snapshot, key: string): ContractWiring {
+    return snapshot.contractSnapshot[key].wiring;
+}
+
+/**
+ * Sends an owner-only call to a protocol contract and checks that Ownable decides it: a call expected to
+ * revert must be turned away with OwnableUnauthorizedAccount(caller), and the wiring of every contract
+ * must be left as it was. The call is run as an eth_call when the step is initialized; a call expected
+ * to revert that would go through is not sent, so it cannot rewire the protocol, and fails validation instead.
+ * Subclasses choose the call.
+ */
+export abstract class OwnerOnlyCallAction extends Action {
+    protected contracts: Record<string, ethers.Contract>;
+    protected actors: Actor[];
+
+    /**
+     * @param actors - Every actor of the run, whose signers may send the call. The array may be filled after construction.
+     */
+    constructor(name: string, contracts: Record<string, ethers.Contract>, actors: Actor[]) {
+        super(name);
+        this.contracts = contracts;
+        this.actors = actors;
+    }
+
+    /**
+     * Picks the call to attempt, or undefined to skip the step.
+     */
+    protected abstract pickCall(context: RunContext, actor: Actor, currentSnapshot: Snapshot): OwnerOnlyCall | undefined;
+
+    /**
+     * Whether the call is expected to revert. By default it is when the caller is not the owner.
+     */
+    protected expectsRevert(call: OwnerOnlyCall, owner: string): boolean {
+        return !sameAddress(call.caller, owner);
+    }
+
+    private callerSigner(caller: string): ethers.Signer {
+        const callerActor = this.actors.find(other => sameAddress(other.account.address, caller));
+        if (!callerActor) {
+            throw new Error(`${this.name}: no actor has the address ${caller}`);
+        }
+        return callerActor.account.value as ethers.Signer;
+    }
+
+    async initialize(
+        context: RunContext,
+        actor: Actor,
+        currentSnapshot: Snapshot
+    ): Promise<[boolean, any, Record<string, any>]> {
+        const call = this.pickCall(context, actor, currentSnapshot);
+        if (!call) {
+            return [false, {}, {}];
+        }
+        const owner = contractWiring(currentSnapshot, call.contract).owner;
+        const expectRevert = this.expectsRevert(call, owner);
+
+        // The eth_call sees the chain the step starts from, which is also where the call would be sent
+        const connectedContract = this.contracts[call.contract].connect(this.callerSigner(call.caller)) as ethers.Contract;
+        let revertData: string | undefined;
+        try {
+            await connectedContract[call.method].staticCall(...call.args);
+        } catch (error: any) {
+            revertData = error?.data ?? "0x";
+        }
+        const wouldSucceed = revertData === undefined;
+        context.log.info(`${this.name}: ${call.caller} calls ${call.contract}.${call.method}, owned by ${owner}, expecting ${expectRevert ? "a revert" : "success"}; an eth_call ${wouldSucceed ? "succeeds" : `reverts with ${revertData}`}`);
+        return [true, { ...call, owner, expectRevert, revertData, wouldSucceed }, {}];
+    }
+
+    async execute(
+        context: RunContext,
+        actor: Actor,
+        currentSnapshot: Snapshot,
+        actionParams: any
+    ): Promise<ExecutionReceipt> {
+        const signer = this.callerSigner(actionParams.caller);
+        const connectedContract = this.contracts[actionParams.contract].connect(signer) as ethers.Contract;
+        const provider = signer.provider as ethers.Provider;
+
+        if (actionParams.expectRevert && actionParams.wouldSucceed) {
+            context.log.info(`${this.name}: ${actionParams.contract}.${actionParams.method} would not revert; not sending it`);
+            return noTransactionReceipt(provider);
+        }
+
+        // Hardhat mines a reverting transaction but rejects the send, so its receipt is found by nonce
+        const nonce = await signer.getNonce();
+        try {
+            const tx = await connectedContract[actionParams.method](...actionParams.args, { gasLimit: OWNER_ONLY_CALL_GAS_LIMIT, nonce });
+            await tx.wait();
+        } catch (error) {
+            context.log.info(`${this.name}: ${actionParams.contract}.${actionParams.method} failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        const block = await provider.getBlock("latest", true);
+        const minedTx = block?.prefetchedTransactions.find(tx => sameAddress(tx.from, actionParams.caller) && tx.nonce === nonce);
+        const receipt = minedTx ? await provider.getTransactionReceipt(minedTx.hash) : null;
+        if (!receipt) {
+            throw new Error(`${this.name}: ${actionParams.contract}.${actionParams.method} from ${actionParams.caller} was not mined`);
+        }
+        return receipt;
+    }
+
+    async validate(
+        context: RunContext,
+        actor: Actor,
+        previousSnapshot: Snapshot,
+        newSnapshot: Snapshot,
+        actionParams: any,
+        executionReceipt: ExecutionReceipt
+    ): Promise<boolean> {
+        const { contract: key, method, caller, expectRevert, revertData, wouldSucceed } = actionParams;
+        const contract = this.contracts[key];
+        const label = `${key}.${method} from ${caller}`;
+
+        // 1. The outcome, and the exact revert reason
+        if (expectRevert) {
+            expect(wouldSucceed, `${label} should revert, but an eth_call of it succeeds`).to.be.false;
+            expect(executionReceipt.status, `${label} should revert`).to.equal(0);
+            const revert = contract.interface.parseError(revertData);
+            expect(revert?.name, `${label} should revert with OwnableUnauthorizedAccount, got ${revertData}`).to.equal("OwnableUnauthorizedAccount");
+            expect(revert?.args.account, "OwnableUnauthorizedAccount should name the caller").to.equal(caller);
+            expect(executionReceipt.logs.length, `${label} reverted, so it should emit no events`).to.equal(0);
+        } else {
+            expect(executionReceipt.status, `${label} should succeed`).to.equal(1);
+        }
+
+        // 2. The wiring of every contract is unchanged
+        for (const contractKey of Object.keys(newSnapshot.contractSnapshot)) {
+            expect(contractWiring(newSnapshot, contractKey), `The wiring of ${contractKey} should not change`)
+                .to.deep.equal(contractWiring(previousSnapshot, contractKey));
+        }
+
+        // 3. Gas is the caller's only ETH cost, reverted or not; the acting actor pays nothing unless it is the caller
+        const gasCost = BigInt(executionReceipt.gasUsed) * BigInt(executionReceipt.gasPrice);
+        expect(newSnapshot.accountSnapshot[caller], "Caller's ETH balance should only pay for gas")
+            .to.equal(previousSnapshot.accountSnapshot[caller] - gasCost);
+        if (!sameAddress(actor.account.address, caller)) {
+            expect(newSnapshot.accountSnapshot[actor.account.address], "Acting actor's ETH balance should not change")
+                .to.equal(previousSnapshot.accountSnapshot[actor.account.address]);
+        }
+        return true;
+    }
+}
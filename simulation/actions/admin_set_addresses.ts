@@ -0,0 +1,30 @@
+import {Actor, Snapshot} from "@svylabs/ilumina";
+import type {RunContext} from "@svylabs/ilumina";
+import {ethers} from "ethers";
+import { CONTRACT_LINKS } from "../contracts/wiring_snapshot";
+import { OwnerOnlyCall, OwnerOnlyCallAction, argumentsFor } from "./admin_owner_only_call";
+
+/**
+ * Has the deployer call setAddresses again, pointing every link at itself. setAddresses renounces
+ * ownership once it has wired a contract, so the call must revert with OwnableUnauthorizedAccount(deployer).
+ */
+export class SetAddressesAgainAction extends OwnerOnlyCallAction {
+    constructor(contracts: Record<string, ethers.Contract>, actors: Actor[]) {
+        super("SetAddressesAgainAction", contracts, actors);
+    }
+
+    protected pickCall(context: RunContext, actor: Actor, currentSnapshot: Snapshot): OwnerOnlyCall | undefined {
+        const keys = Object.keys(CONTRACT_LINKS).filter(key => this.contracts[key]?.interface.hasFunction("setAddresses"));
+        if (keys.length === 0) {
+            context.log.info(`SetAddressesAgainAction: no deployed contract has setAddresses.`);
+            return undefined;
+        }
+        const key = keys[Number(context.prng.next() % BigInt(keys.length))];
+        const fragment = this.contracts[key].interface.getFunction("setAddresses")!;
+        return { contract: key, method: "setAddresses", args: argumentsFor(fragment, actor.account.address), caller: actor.account.address };
+    }
+
+    protected expectsRevert(): boolean {
+        return true;
+    }
+}
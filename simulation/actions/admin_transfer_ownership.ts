@@ -0,0 +1,54 @@
+import {Actor, Snapshot} from "@svylabs/ilumina";
+import type {RunContext, ExecutionReceipt} from "@svylabs/ilumina";
+import {ethers} from "ethers";
+import {expect} from "chai";
+import { OwnerOnlyCall, OwnerOnlyCallAction } from "./admin_owner_only_call";
+
+/**
+ * Has the deployer transfer ownership of a contract to itself. It must revert where the deployer no
+ * longer owns the contract; where it still does, the transfer goes through and leaves the owner as it was.
+ */
+export class TransferOwnershipAction extends OwnerOnlyCallAction {
+    constructor(contracts: Record<string, ethers.Contract>, actors: Actor[]) {
+        super("TransferOwnershipAction", contracts, actors);
+    }
+
+    protected pickCall(context: RunContext, actor: Actor, currentSnapshot: Snapshot): OwnerOnlyCall | undefined {
+        const keys = Object.keys(currentSnapshot.contractSnapshot)
+            .filter(key => this.contracts[key]?.interface.hasFunction("transferOwnership"));
+        if (keys.length === 0) {
+            context.log.info(`TransferOwnershipAction: no deployed contract has transferOwnership.`);
+            return undefined;
+        }
+        const key = keys[Number(context.prng.next() % BigInt(keys.length))];
+        return { contract: key, method: "transferOwnership", args: [actor.account.address], caller: actor.account.address };
+    }
+
+    async validate(
+        context: RunContext,
+        actor: Actor,
+        previousSnapshot: Snapshot,
+        newSnapshot: Snapshot,
+        actionParams: any,
+        executionReceipt: ExecutionReceipt
+    ): Promise<boolean> {
+        await super.validate(context, actor, previousSnapshot, newSnapshot, actionParams, executionReceipt);
+        if (actionParams.expectRevert) {
+            return true;
+        }
+
+        // The owner handed the contract to itself
+        const contract = this.contracts[actionParams.contract];
+        let ownershipEventFound = false;
+        for (const log of executionReceipt.logs) {
+            const parsedLog = contract.interface.parseLog(log);
+            if (parsedLog?.name === "OwnershipTransferred") {
+                ownershipEventFound = true;
+                expect(parsedLog.args.previousOwner, "OwnershipTransferred event previousOwner mismatch").to.equal(actionParams.caller);
+                expect(parsedLog.args.newOwner, "OwnershipTransferred event newOwner mismatch").to.equal(actionParams.caller);
+            }
+        }
+        expect(ownershipEventFound, "OwnershipTransferred event not emitted").to.be.true;
+        return true;
+    }
+}
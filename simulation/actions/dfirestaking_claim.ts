@@ -16,10 +16,17 @@ class ClaimAction extends Action {
         actor: Actor,
         currentSnapshot: Snapshot
     ): Promise<[boolean, any, Record<string, any>]> {
+        const actorAddress = actor.account.address;
         const dfireStakingSnapshot = currentSnapshot.contractSnapshot.dfireStaking;
+        if (!dfireStakingSnapshot) {
+            return [false, {}, {}];
+        }
 
-        const userStake = dfireStakingSnapshot?.userStake;
-        const userPendingRewards = dfireStakingSnapshot?.userPendingRewards;
+        const userStake = dfireStakingSnapshot.stakes?.[actorAddress];
+        const userPendingRewards = dfireStakingSnapshot.userPendingRewards?.[actorAddress];
+        if (!userStake || !userPendingRewards) {
+            return [false, {}, {}];
+        }
 
         const hasStake = userStake && userStake.stake > 0n;
         const hasPendingClaimableRewards = userPendingRewards && (userPendingRewards.pendingRewardAmount > 0n || userPendingRewards.pendingCollateralReward > 0n);
@@ -129,27 +136,34 @@ class ClaimAction extends Action {
             return false;
         }
 
+        const prevUserStake = prevDfireStaking.stakes[actorAddress];
+        const newUserStake = newDfireStaking.stakes[actorAddress];
+        const newUserPendingRewards = newDfireStaking.userPendingRewards[actorAddress];
+        expect(prevUserStake, `Previous DFIREStaking snapshot has no stake for ${actorAddress}.`).to.exist;
+        expect(newUserStake, `New DFIREStaking snapshot has no stake for ${actorAddress}.`).to.exist;
+        expect(newUserPendingRewards, `New DFIREStaking snapshot has no pending rewards for ${actorAddress}.`).to.exist;
+
         expect(
-            newDfireStaking.userStake.rewardSnapshot,
+            newUserStake.rewardSnapshot,
             "New rewardSnapshot must be equal to new totalRewardPerToken."
         ).to.equal(newDfireStaking.totalRewardPerToken);
 
         expect(
-            newDfireStaking.userStake.collateralSnapshot,
+            newUserStake.collateralSnapshot,
             "New collateralSnapshot must be equal to new totalCollateralPerToken."
         ).to.equal(newDfireStaking.totalCollateralPerToken);
 
         expect(
-            newDfireStaking.userStake.stake,
+            newUserStake.stake,
             "Stake amount must remain unchanged after claim."
-        ).to.equal(prevDfireStaking.userStake.stake);
+        ).to.equal(prevUserStake.stake);
 
         expect(
-            newDfireStaking.userPendingRewards.pendingRewardAmount,
+            newUserPendingRewards.pendingRewardAmount,
             "User pending reward amount must be 0 after claim."
         ).to.equal(0n);
         expect(
-            newDfireStaking.userPendingRewards.pendingCollateralReward,
+            newUserPendingRewards.pendingCollateralReward,
             "User pending collateral reward must be 0 after claim."
         ).to.equal(0n);
 
@@ -116,18 +116,23 @@ export class StakeAction extends Action {
 
         // --- State Validation: DFIREStaking Contract ---
 
+        const prevStakeEntry = previousSnapshot.contractSnapshot.dfireStaking.stakes[actorAddress];
+        const newStakeEntry = newSnapshot.contractSnapshot.dfireStaking.stakes[actorAddress];
+        expect(prevStakeEntry, `Previous DFIREStaking snapshot has no stake for ${actorAddress}`).to.exist;
+        expect(newStakeEntry, `New DFIREStaking snapshot has no stake for ${actorAddress}`).to.exist;
+
         // user.stake update
-        const prevUserStake = previousSnapshot.contractSnapshot.dfireStaking.userStake.stake;
-        const newUserStake = newSnapshot.contractSnapshot.dfireStaking.userStake.stake;
+        const prevUserStake = prevStakeEntry.stake;
+        const newUserStake = newStakeEntry.stake;
         expect(newUserStake).to.equal(prevUserStake + _amount, "DFIREStaking user stake mismatch");
 
         // user.rewardSnapshot update
-        const newRewardSnapshot = newSnapshot.contractSnapshot.dfireStaking.userStake.rewardSnapshot;
+        const newRewardSnapshot = newStakeEntry.rewardSnapshot;
         const currentTotalRewardPerToken = newSnapshot.contractSnapshot.dfireStaking.totalRewardPerToken; // Should be the value at _claim execution
         expect(newRewardSnapshot).to.equal(currentTotalRewardPerToken, "DFIREStaking reward snapshot mismatch");
 
         // user.collateralSnapshot update
-        const newCollateralSnapshot = newSnapshot.contractSnapshot.dfireStaking.userStake.collateralSnapshot;
+        const newCollateralSnapshot = newStakeEntry.collateralSnapshot;
         const currentTotalCollateralPerToken = newSnapshot.contractSnapshot.dfireStaking.totalCollateralPerToken;
         expect(newCollateralSnapshot).to.equal(currentTotalCollateralPerToken, "DFIREStaking collateral snapshot mismatch");
 
@@ -21,7 +21,7 @@ export class UnstakeAction extends Action {
         const userAddress = actor.account.address;
 
         // Get current staked amount for the user
-        const userStake = currentSnapshot.contractSnapshot.dfireStaking.userStake.stake;
+        const userStake = currentSnapshot.contractSnapshot.dfireStaking.stakes[userAddress]?.stake ?? 0n;
 
         // The '_amount' to unstake must be greater than zero.
         // The '_amount' to unstake must be less than or equal to the current staked amount of the user.
@@ -80,10 +80,15 @@ export class UnstakeAction extends Action {
         const effectiveGasPrice = BigInt(executionReceipt.effectiveGasPrice);
         const gasFee = gasUsed * effectiveGasPrice;
 
+        const prevStakeEntry = previousSnapshot.contractSnapshot.dfireStaking.stakes[userAddress];
+        const newStakeEntry = newSnapshot.contractSnapshot.dfireStaking.stakes[userAddress];
+        expect(prevStakeEntry, `Previous DFIREStaking snapshot has no stake for ${userAddress}`).to.exist;
+        expect(newStakeEntry, `New DFIREStaking snapshot has no stake for ${userAddress}`).to.exist;
+
         // --- State Variables from previous snapshot for calculations ---
-        const prevUserStake = previousSnapshot.contractSnapshot.dfireStaking.userStake.stake;
-        const prevUserRewardSnapshot = previousSnapshot.contractSnapshot.dfireStaking.userStake.rewardSnapshot;
-        const prevUserCollateralSnapshot = previousSnapshot.contractSnapshot.dfireStaking.userStake.collateralSnapshot;
+        const prevUserStake = prevStakeEntry.stake;
+        const prevUserRewardSnapshot = prevStakeEntry.rewardSnapshot;
+        const prevUserCollateralSnapshot = prevStakeEntry.collateralSnapshot;
         const prevTotalStake = previousSnapshot.contractSnapshot.dfireStaking.totalStake;
         const prevTotalRewardPerToken = previousSnapshot.contractSnapshot.dfireStaking.totalRewardPerToken;
         const prevTotalCollateralPerToken = previousSnapshot.contractSnapshot.dfireStaking.totalCollateralPerToken;
@@ -98,10 +103,10 @@ export class UnstakeAction extends Action {
         if (expectedCollateralReward < 0n) expectedCollateralReward = 0n;
 
         // --- DFIREStaking Contract State Validation ---
-        const newUserStake = newSnapshot.contractSnapshot.dfireStaking.userStake.stake;
+        const newUserStake = newStakeEntry.stake;
         const newTotalStake = newSnapshot.contractSnapshot.dfireStaking.totalStake;
-        const newUserRewardSnapshot = newSnapshot.contractSnapshot.dfireStaking.userStake.rewardSnapshot;
-        const newUserCollateralSnapshot = newSnapshot.contractSnapshot.dfireStaking.userStake.collateralSnapshot;
+        const newUserRewardSnapshot = newStakeEntry.rewardSnapshot;
+        const newUserCollateralSnapshot = newStakeEntry.collateralSnapshot;
         const newTotalRewardPerToken = newSnapshot.contractSnapshot.dfireStaking.totalRewardPerToken; // For snapshot comparison
         const newTotalCollateralPerToken = newSnapshot.contractSnapshot.dfireStaking.totalCollateralPerToken; // For snapshot comparison
 
@@ -0,0 +1,119 @@
+import {Action, Actor, Snapshot} from "@svylabs/ilumina";
+import type {RunContext, ExecutionReceipt} from "@svylabs/ilumina";
+import {ethers} from "ethers";
+import {expect} from "chai";
+import { ProtocolToken, tokenAllowance, tokenBalance } from "./erc20_transfer";
+import { sameAddress } from "./stablebasecdp_transfer_safe";
+
+/**
+ * Has an actor that holds a token approve a protocol contract to pull its whole balance, so its
+ * redeem or stake actions can go through. Only a holder can approve for itself, so the approval is
+ * sent from the holder's signer, which also pays the gas. The allowance is exact rather than unlimited:
+ * the stake validators expect transferFrom to spend it.
+ */
+export class ApproveTokenAction extends Action {
+    private token: ProtocolToken;
+    private contract: ethers.Contract;
+    private spender: string;
+    private actors: Actor[];
+    private ownerNames: string[];
+
+    /**
+     * @param spender - The context.contracts key of the contract to approve, e.g. "stabilityPool".
+     * @param actors - Every actor of the run; owners are drawn from them. The array may be filled after construction.
+     * @param ownerNames - The names of the actors to approve for.
+     */
+    constructor(token: ProtocolToken, contract: ethers.Contract, spender: string, actors: Actor[], ownerNames: string[]) {
+        super(`ApproveTokenAction(${token}, ${spender})`);
+        this.token = token;
+        this.contract = contract;
+        this.spender = spender;
+        this.actors = actors;
+        this.ownerNames = ownerNames;
+    }
+
+    async initialize(
+        context: RunContext,
+        actor: Actor,
+        currentSnapshot: Snapshot
+    ): Promise<[boolean, any, Record<string, any>]> {
+        const spenderAddress = context.contracts[this.spender].target as string;
+        // Holders whose allowance no longer covers their balance. One that has not been sent any yet
+        // is skipped rather than approved for nothing.
+        const owners = this.actors.filter(other => {
+            if (!this.ownerNames.includes(other.name)) {
+                return false;
+            }
+            const balance = tokenBalance(currentSnapshot, this.token, other.account.address);
+            return balance > 0n && balance > tokenAllowance(currentSnapshot, this.token, other.account.address, spenderAddress);
+        });
+        if (owners.length === 0) {
+            context.log.info(`ApproveTokenAction: every ${this.ownerNames.join(", ")} actor has approved ${this.spender} for its ${this.token}.`);
+            return [false, {}, {}];
+        }
+        const owner = owners[Number(context.prng.next() % BigInt(owners.length))];
+        const amount = tokenBalance(currentSnapshot, this.token, owner.account.address);
+        context.log.info(`ApproveTokenAction: ${owner.name} ${owner.account.address} approves ${this.spender} for ${amount} ${this.token}`);
+        return [true, { owner: owner.account.address, spender: spenderAddress, amount }, {}];
+    }
+
+    async execute(
+        context: RunContext,
+        actor: Actor,
+        currentSnapshot: Snapshot,
+        actionParams: any
+    ): Promise<ExecutionReceipt> {
+        const owner = this.actors.find(other => sameAddress(other.account.address, actionParams.owner));
+        if (!owner) {
+            throw new Error(`ApproveTokenAction: no actor has the address ${actionParams.owner}`);
+        }
+        const signer = owner.account.value as ethers.Signer;
+        const tx = await (this.contract.connect(signer) as ethers.Contract).approve(actionParams.spender, actionParams.amount);
+        const receipt = await tx.wait();
+        if (!receipt) {
+            throw new Error("Transaction failed or did not get a receipt.");
+        }
+        return receipt;
+    }
+
+    async validate(
+        context: RunContext,
+        actor: Actor,
+        previousSnapshot: Snapshot,
+        newSnapshot: Snapshot,
+        actionParams: any,
+        executionReceipt: ExecutionReceipt
+    ): Promise<boolean> {
+        const { owner, spender, amount } = actionParams;
+
+        expect(executionReceipt.status, "Approve transaction should succeed").to.equal(1);
+
+        // 1. The allowance is replaced, not added to, and no tokens move
+        expect(tokenAllowance(newSnapshot, this.token, owner, spender), `${this.token} allowance should equal the approved amount`).to.equal(amount);
+        expect(tokenBalance(newSnapshot, this.token, owner), `Owner's ${this.token} balance should not change on approve`)
+            .to.equal(tokenBalance(previousSnapshot, this.token, owner));
+
+        // 2. The owner sent the transaction and pays for gas; the acting actor pays nothing unless it is the owner
+        const gasCost = BigInt(executionReceipt.gasUsed) * BigInt(executionReceipt.gasPrice);
+        expect(newSnapshot.accountSnapshot[owner], "Owner's ETH balance should only pay for gas")
+            .to.equal(previousSnapshot.accountSnapshot[owner] - gasCost);
+        if (!sameAddress(actor.account.address, owner)) {
+            expect(newSnapshot.accountSnapshot[actor.account.address], "Acting actor's ETH balance should not change")
+                .to.equal(previousSnapshot.accountSnapshot[actor.account.address]);
+        }
+
+        // 3. Events
+        let approvalEventFound = false;
+        for (const log of executionReceipt.logs) {
+            const parsedLog = this.contract.interface.parseLog(log);
+            if (parsedLog?.name === "Approval") {
+                approvalEventFound = true;
+                expect(parsedLog.args.owner, "Approval event owner mismatch").to.equal(owner);
+                expect(parsedLog.args.spender, "Approval event spender mismatch").to.equal(spender);
+                expect(parsedLog.args.value, "Approval event value mismatch").to.equal(amount);
+            }
+        }
+        expect(approvalEventFound, "Approval event not emitted").to.be.true;
+        return true;
+    }
+}
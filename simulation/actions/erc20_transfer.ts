@@ -0,0 +1,150 @@
+import {Action, Actor, Snapshot} from "@svylabs/ilumina";
+import type {RunContext, ExecutionReceipt} from "@svylabs/ilumina";
+import {ethers} from "ethers";
+import {expect} from "chai";
+import { DFIDTokenContractSnapshot, DFIRETokenSnapshot } from "../contracts/snapshot_interfaces";
+import { sameAddress } from "./stablebasecdp_transfer_safe";
+
+/**
+ * The ERC-20 tokens of the protocol, by their ContractSnapshot key.
+ */
+export type ProtocolToken = "dfidToken" | "dfireToken";
+
+/**
+ * Reads an account's balance of a token; the two token snapshots lay balances out differently.
+ */
+export function tokenBalance(snapshot: Snapshot, token: ProtocolToken, address: string): bigint {
+    if (token === "dfidToken") {
+        const dfid: DFIDTokenContractSnapshot = snapshot.contractSnapshot.dfidToken;
+        return dfid.accountBalances[address] ?? 0n;
+    }
+    const dfire: DFIRETokenSnapshot = snapshot.contractSnapshot.dfireToken;
+    return dfire.accounts[address]?.balance ?? 0n;
+}
+
+/**
+ * Reads the amount a spender may still transferFrom an owner.
+ */
+export function tokenAllowance(snapshot: Snapshot, token: ProtocolToken, owner: string, spender: string): bigint {
+    if (token === "dfidToken") {
+        const dfid: DFIDTokenContractSnapshot = snapshot.contractSnapshot.dfidToken;
+        return dfid.accountAllowances[owner]?.[spender] ?? 0n;
+    }
+    const dfire: DFIRETokenSnapshot = snapshot.contractSnapshot.dfireToken;
+    return dfire.accounts[owner]?.allowances[spender] ?? 0n;
+}
+
+/**
+ * Reads the total supply of a token.
+ */
+export function tokenSupply(snapshot: Snapshot, token: ProtocolToken): bigint {
+    if (token === "dfidToken") {
+        return (snapshot.contractSnapshot.dfidToken as DFIDTokenContractSnapshot).tokenTotalSupply;
+    }
+    return (snapshot.contractSnapshot.dfireToken as DFIRETokenSnapshot).totalTokenSupply;
+}
+
+/**
+ * Transfers between 10% and 50% of the actor's token balance to one of the actors that need the token,
+ * e.g. DFID to redeemers and stability pool depositors, DFIRE to DFIRE stakers.
+ */
+export class TransferTokenAction extends Action {
+    private token: ProtocolToken;
+    private contract: ethers.Contract;
+    private actors: Actor[];
+    private recipientNames: string[];
+
+    /**
+     * @param actors - Every actor of the run; recipients are drawn from them. The array may be filled after construction.
+     * @param recipientNames - The names of the actors that receive the token.
+     */
+    constructor(token: ProtocolToken, contract: ethers.Contract, actors: Actor[], recipientNames: string[]) {
+        super(`TransferTokenAction(${token})`);
+        this.token = token;
+        this.contract = contract;
+        this.actors = actors;
+        this.recipientNames = recipientNames;
+    }
+
+    async initialize(
+        context: RunContext,
+        actor: Actor,
+        currentSnapshot: Snapshot
+    ): Promise<[boolean, any, Record<string, any>]> {
+        const balance = tokenBalance(currentSnapshot, this.token, actor.account.address);
+        if (balance === 0n) {
+            context.log.info(`TransferTokenAction: ${actor.account.address} holds no ${this.token}.`);
+            return [false, {}, {}];
+        }
+        const recipients = this.actors.filter(other =>
+            this.recipientNames.includes(other.name) && !sameAddress(other.account.address, actor.account.address));
+        if (recipients.length === 0) {
+            context.log.info(`TransferTokenAction: no ${this.recipientNames.join(", ")} actor to send ${this.token} to.`);
+            return [false, {}, {}];
+        }
+        const recipient = recipients[Number(context.prng.next() % BigInt(recipients.length))];
+        const amount = balance * (10n + context.prng.next() % 41n) / 100n;
+        if (amount === 0n) {
+            context.log.info(`TransferTokenAction: ${actor.account.address} holds too little ${this.token} to share.`);
+            return [false, {}, {}];
+        }
+        context.log.info(`TransferTokenAction: sending ${amount} ${this.token} from ${actor.account.address} to ${recipient.name} ${recipient.account.address}`);
+        return [true, { to: recipient.account.address, amount }, {}];
+    }
+
+    async execute(
+        context: RunContext,
+        actor: Actor,
+        currentSnapshot: Snapshot,
+        actionParams: any
+    ): Promise<ExecutionReceipt> {
+        const signer = actor.account.value as ethers.Signer;
+        const tx = await (this.contract.connect(signer) as ethers.Contract).transfer(actionParams.to, actionParams.amount);
+        const receipt = await tx.wait();
+        if (!receipt) {
+            throw new Error("Transaction failed or did not get a receipt.");
+        }
+        return receipt;
+    }
+
+    async validate(
+        context: RunContext,
+        actor: Actor,
+        previousSnapshot: Snapshot,
+        newSnapshot: Snapshot,
+        actionParams: any,
+        executionReceipt: ExecutionReceipt
+    ): Promise<boolean> {
+        const { to, amount } = actionParams;
+        const from = actor.account.address;
+
+        expect(executionReceipt.status, "Transfer transaction should succeed").to.equal(1);
+
+        // 1. The amount moves from the sender to the recipient and nothing is minted or burned
+        expect(tokenBalance(newSnapshot, this.token, from), `Sender's ${this.token} balance should decrease by the amount`)
+            .to.equal(tokenBalance(previousSnapshot, this.token, from) - amount);
+        expect(tokenBalance(newSnapshot, this.token, to), `Recipient's ${this.token} balance should increase by the amount`)
+            .to.equal(tokenBalance(previousSnapshot, this.token, to) + amount);
+        expect(tokenSupply(newSnapshot, this.token), `${this.token} total supply should not change on transfer`)
+            .to.equal(tokenSupply(previousSnapshot, this.token));
+
+        // 2. Gas is the sender's only ETH cost
+        const gasCost = BigInt(executionReceipt.gasUsed) * BigInt(executionReceipt.gasPrice);
+        expect(newSnapshot.accountSnapshot[from], "Sender's ETH balance should only pay for gas")
+            .to.equal(previousSnapshot.accountSnapshot[from] - gasCost);
+
+        // 3. Events
+        let transferEventFound = false;
+        for (const log of executionReceipt.logs) {
+            const parsedLog = this.contract.interface.parseLog(log);
+            if (parsedLog?.name === "Transfer") {
+                transferEventFound = true;
+                expect(parsedLog.args.from, "Transfer event from mismatch").to.equal(from);
+                expect(parsedLog.args.to, "Transfer event to mismatch").to.equal(to);
+                expect(parsedLog.args.value, "Transfer event value mismatch").to.equal(amount);
+            }
+        }
+        expect(transferEventFound, "Transfer event not emitted").to.be.true;
+        return true;
+    }
+}
@@ -284,7 +284,7 @@ export class StakeAction extends Action {
         let expectedNewStabilityPoolTotalSbrRewardPerToken = prevTotalSbrRewardPerToken;
         let expectedNewStabilityPoolSbrRewardLoss = prevStabilityPoolSbrRewardLoss;
 
-        const currentBlockTimestamp = toBn(executionReceipt.blockNumber);
+        const currentBlockTimestamp = toBn(executionReceipt.blockTimestamp);
 
         // Simulate `_addSBRRewards` logic only if the status is NOT_ENDED initially
         if (prevStabilityPoolSbrRewardDistributionStatus !== 2n) { // NOT_STARTED or STARTED
@@ -0,0 +1,101 @@
+import {Action, Actor, Snapshot} from "@svylabs/ilumina";
+import type {RunContext, ExecutionReceipt} from "@svylabs/ilumina";
+import {ethers} from "ethers";
+import {expect} from "chai";
+import { StableBaseCDPSnapshot } from "../contracts/snapshot_interfaces";
+import { pickCounterparty } from "./stablebasecdp_transfer_safe";
+
+/**
+ * Approves another actor to transfer one of the actor's safes, or clears the approval.
+ */
+export class ApproveSafeAction extends Action {
+    private contract: ethers.Contract;
+    private actors: Actor[];
+
+    /**
+     * @param actors - Every actor of the run; the approved address is drawn from them.
+     */
+    constructor(contract: ethers.Contract, actors: Actor[]) {
+        super("ApproveSafeAction");
+        this.contract = contract;
+        this.actors = actors;
+    }
+
+    async initialize(
+        context: RunContext,
+        actor: Actor,
+        currentSnapshot: Snapshot
+    ): Promise<[boolean, any, Record<string, any>]> {
+        const cdp: StableBaseCDPSnapshot = currentSnapshot.contractSnapshot.stableBaseCDP;
+        const ownedSafeIds = Object.entries(cdp.safeOwner)
+            .filter(([, owner]) => owner.toLowerCase() === actor.account.address.toLowerCase())
+            .map(([safeId]) => BigInt(safeId));
+        if (ownedSafeIds.length === 0) {
+            context.log.info(`ApproveSafeAction: ${actor.account.address} owns no safe.`);
+            return [false, {}, {}];
+        }
+        const safeId = ownedSafeIds[Number(context.prng.next() % BigInt(ownedSafeIds.length))];
+        // One approval in four clears the existing one
+        const spender = context.prng.next() % 4n === 0n ? undefined : pickCounterparty(context, actor, this.actors);
+        const approved = spender ? spender.account.address : ethers.ZeroAddress;
+        context.log.info(`ApproveSafeAction: approving ${approved} for safe ${safeId}`);
+        return [true, { safeId, approved }, {}];
+    }
+
+    async execute(
+        context: RunContext,
+        actor: Actor,
+        currentSnapshot: Snapshot,
+        actionParams: any
+    ): Promise<ExecutionReceipt> {
+        const signer = actor.account.value as ethers.Signer;
+        const tx = await (this.contract.connect(signer) as ethers.Contract).approve(actionParams.approved, actionParams.safeId);
+        const receipt = await tx.wait();
+        if (!receipt) {
+            throw new Error("Transaction failed or did not get a receipt.");
+        }
+        return receipt;
+    }
+
+    async validate(
+        context: RunContext,
+        actor: Actor,
+        previousSnapshot: Snapshot,
+        newSnapshot: Snapshot,
+        actionParams: any,
+        executionReceipt: ExecutionReceipt
+    ): Promise<boolean> {
+        const { safeId, approved } = actionParams;
+        const key = safeId.toString();
+        const prevCdp: StableBaseCDPSnapshot = previousSnapshot.contractSnapshot.stableBaseCDP;
+        const newCdp: StableBaseCDPSnapshot = newSnapshot.contractSnapshot.stableBaseCDP;
+
+        expect(executionReceipt.status, "Approve transaction should succeed").to.equal(1);
+
+        // 1. Only the approval changes
+        expect(newCdp.safeApprovedAddress[key], "Safe approval should be the approved address").to.equal(approved);
+        expect(newCdp.safeOwner[key], "Approving should not change the owner").to.equal(prevCdp.safeOwner[key]);
+        expect(newCdp.balanceOfSafes, "Approving should not change safe balances").to.deep.equal(prevCdp.balanceOfSafes);
+        expect(newCdp.isOperatorApprovedForAll, "Approving a safe should not change operators").to.deep.equal(prevCdp.isOperatorApprovedForAll);
+        expect(newCdp.safeDetails[key], "Approving should not change the safe").to.deep.equal(prevCdp.safeDetails[key]);
+
+        // 2. Gas is the owner's only ETH cost
+        const gasCost = BigInt(executionReceipt.gasUsed) * BigInt(executionReceipt.gasPrice);
+        expect(newSnapshot.accountSnapshot[actor.account.address], "Owner's ETH balance should only pay for gas")
+            .to.equal(previousSnapshot.accountSnapshot[actor.account.address] - gasCost);
+
+        // 3. Events
+        let approvalEventFound = false;
+        for (const log of executionReceipt.logs) {
+            const parsedLog = this.contract.interface.parseLog(log);
+            if (parsedLog?.name === "Approval") {
+                approvalEventFound = true;
+                expect(parsedLog.args.owner, "Approval event owner mismatch").to.equal(actor.account.address);
+                expect(parsedLog.args.approved, "Approval event approved mismatch").to.equal(approved);
+                expect(parsedLog.args.tokenId, "Approval event tokenId mismatch").to.equal(safeId);
+            }
+        }
+        expect(approvalEventFound, "Approval event not emitted").to.be.true;
+        return true;
+    }
+}
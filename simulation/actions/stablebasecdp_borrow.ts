@@ -65,8 +65,8 @@ const LIQUIDATION_RATIO_PLACEHOLDER = 1_500_000_000_000_000_000n; // 1.5 * 10^18
 export class BorrowAction extends Action {
   private contract: ethers.Contract;
 
-  constructor(contract: ethers.Contract) {
-    super("BorrowAction");
+  constructor(contract: ethers.Contract, name: string = "BorrowAction") {
+    super(name);
     this.contract = contract;
   }
 
@@ -248,6 +248,11 @@ export class BorrowAction extends Action {
     // Derived values from events or calculations
     const collateralIncrease = safeUpdatedArgs.collateralIncrease;
     const debtIncrease = safeUpdatedArgs.debtIncrease;
+
+    // The increases applied by _updateSafe must be exactly the redistribution pending before the borrow
+    const prevPendingRedistribution = previousSnapshot.contractSnapshot.stableBaseCDP.pendingRedistribution[safeId.toString()];
+    expect(collateralIncrease, "SafeUpdated collateralIncrease should equal the pending redistributed collateral").to.equal(prevPendingRedistribution.collateralIncrease);
+    expect(debtIncrease, "SafeUpdated debtIncrease should equal the pending redistributed debt").to.equal(prevPendingRedistribution.debtIncrease);
     const _shieldingFee = (amount * shieldingRate) / BASIS_POINTS_DIVISOR;
     const canRefund = feeDistributedArgs.canRefund; // From FeeDistributed event
     const _amountToBorrowNet = amount - _shieldingFee + canRefund;
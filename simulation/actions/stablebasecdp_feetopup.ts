@@ -332,10 +332,8 @@ export class FeeTopupAction extends Action {
                 expect(newStabilityPool.sbrRewardDistributionStatus, "SBR status should change from NOT_STARTED to STARTED").to.equal(1n); // 1n is SBRRewardDistribution.STARTED
                 expect(newStabilityPool.sbrRewardDistributionEndTime, "sbrRewardDistributionEndTime should be set").to.not.equal(0n); // Should be block.timestamp + 365 days
             } else if (prevStabilityPool.sbrRewardDistributionStatus === 1n) { // 1n is SBRRewardDistribution.STARTED
-                // Due to time-dependent nature, we can only check if it transitions to ENDED or stays STARTED
-                // based on whether current block time (represented by receipt.blockNumber for testing) crossed the end time.
-                // This is a simplified check, full block.timestamp check is complex without direct access to block.timestamp.
-                if (BigInt(executionReceipt.blockNumber) * 1000n > prevStabilityPool.sbrRewardDistributionEndTime) { // Approx block.timestamp in milliseconds
+                // Transitions to ENDED once the transaction's block.timestamp passes the end time
+                if (BigInt(executionReceipt.blockTimestamp) > prevStabilityPool.sbrRewardDistributionEndTime) {
                     expect(newStabilityPool.sbrRewardDistributionStatus, "SBR status should change from STARTED to ENDED").to.equal(2n); // 2n is SBRRewardDistribution.ENDED
                 } else {
                     expect(newStabilityPool.sbrRewardDistributionStatus, "SBR status should remain STARTED").to.equal(1n); // 1n is SBRRewardDistribution.STARTED
@@ -215,7 +215,7 @@ class LiquidateSafeAction extends Action {
             const collateralSentToDistribute = finalCollateralAmountInSafe - liquidationFee;
             const debtSentToDistribute = finalBorrowedAmountInSafe;
 
-            const collateralToDistribute = collateralSentToDistribute + previousCDPSnapshot.collateralLoss;
+            const collateralToDistribute = collateralSentToDistribute + previousCDPSnapshot.totalCollateralLoss;
             const debtToDistribute = debtSentToDistribute + previousCDPSnapshot.totalDebtLoss; // totalDebtLoss in snapshot schema for debtLoss
 
             // totalCollateral in distributeDebtAndCollateral is the contract's totalCollateral after the safe is removed.
@@ -226,7 +226,7 @@ class LiquidateSafeAction extends Action {
                 // Assuming no change to cumulative values or losses in this case if it didn't revert.
                 expect(newCDPSnapshot.cumulativeCollateralPerUnitCollateral).to.equal(previousCDPSnapshot.cumulativeCollateralPerUnitCollateral);
                 expect(newCDPSnapshot.cumulativeDebtPerUnitCollateral).to.equal(previousCDPSnapshot.cumulativeDebtPerUnitCollateral);
-                expect(newCDPSnapshot.collateralLoss).to.equal(collateralToDistribute); // All becomes loss if totalCollateral is 0
+                expect(newCDPSnapshot.totalCollateralLoss).to.equal(collateralToDistribute); // All becomes loss if totalCollateral is 0
                 expect(newCDPSnapshot.totalDebtLoss).to.equal(debtToDistribute);
             } else {
                 const expectedCollPerUnitCollIncrease = (collateralToDistribute * PRECISION) / effectiveTotalCollateralForDistribution;
@@ -237,14 +237,14 @@ class LiquidateSafeAction extends Action {
 
                 const expectedCollateralLoss = collateralToDistribute - (expectedCollPerUnitCollIncrease * effectiveTotalCollateralForDistribution) / PRECISION;
                 const expectedDebtLoss = debtToDistribute - (expectedDebtPerUnitCollIncrease * effectiveTotalCollateralForDistribution) / PRECISION;
-                expect(newCDPSnapshot.collateralLoss, `collateralLoss mismatch`).to.equal(expectedCollateralLoss);
+                expect(newCDPSnapshot.totalCollateralLoss, `totalCollateralLoss mismatch`).to.equal(expectedCollateralLoss);
                 expect(newCDPSnapshot.totalDebtLoss, `debtLoss mismatch`).to.equal(expectedDebtLoss);
             }
         } else {
             // If secondary mechanism not used, these should remain unchanged relative to previous snapshot (unless updateSafe changed something - but updateSafe doesn't modify these globals).
             expect(newCDPSnapshot.cumulativeCollateralPerUnitCollateral).to.equal(previousCDPSnapshot.cumulativeCollateralPerUnitCollateral);
             expect(newCDPSnapshot.cumulativeDebtPerUnitCollateral).to.equal(previousCDPSnapshot.cumulativeDebtPerUnitCollateral);
-            expect(newCDPSnapshot.collateralLoss).to.equal(previousCDPSnapshot.collateralLoss);
+            expect(newCDPSnapshot.totalCollateralLoss).to.equal(previousCDPSnapshot.totalCollateralLoss);
             expect(newCDPSnapshot.totalDebtLoss).to.equal(previousCDPSnapshot.totalDebtLoss);
         }
 
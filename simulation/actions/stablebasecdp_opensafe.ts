@@ -3,11 +3,11 @@ import type { RunContext, ExecutionReceipt } from "@svylabs/ilumina";
 import { ethers } from "ethers";
 import { expect } from "chai";
 
-class OpenSafeAction extends Action {
+export class OpenSafeAction extends Action {
     private contract: ethers.Contract;
 
-    constructor(contract: ethers.Contract) {
-        super("OpenSafeAction");
+    constructor(contract: ethers.Contract, name: string = "OpenSafeAction") {
+        super(name);
         this.contract = contract;
     }
 
@@ -118,12 +118,13 @@ class OpenSafeAction extends Action {
         expect(newStableBaseCDP.safeDetails[_safeId.toString()]?.feePaid, "feePaid should be 0").to.equal(0n);
 
         // 1b. Liquidation Snapshot Initialization (liquidationSnapshots[_safeId])
-        // Based on the snapshot structure, `inactiveDebtAndCollateral` is assumed to represent `liquidationSnapshots`.
         const prevCumulativeDebtPerUnitCollateral = prevStableBaseCDP.cumulativeDebtPerUnitCollateral;
         const prevCumulativeCollateralPerUnitCollateral = prevStableBaseCDP.cumulativeCollateralPerUnitCollateral;
 
-        expect(newStableBaseCDP.inactiveDebtAndCollateral[_safeId.toString()]?.inactiveDebt, "debtPerCollateralSnapshot should match previous cumulativeDebtPerUnitCollateral").to.equal(prevCumulativeDebtPerUnitCollateral);
-        expect(newStableBaseCDP.inactiveDebtAndCollateral[_safeId.toString()]?.inactiveCollateral, "collateralPerCollateralSnapshot should match previous cumulativeCollateralPerUnitCollateral").to.equal(prevCumulativeCollateralPerUnitCollateral);
+        expect(newStableBaseCDP.liquidationSnapshots[_safeId.toString()]?.debtPerCollateralSnapshot, "debtPerCollateralSnapshot should match previous cumulativeDebtPerUnitCollateral").to.equal(prevCumulativeDebtPerUnitCollateral);
+        expect(newStableBaseCDP.liquidationSnapshots[_safeId.toString()]?.collateralPerCollateralSnapshot, "collateralPerCollateralSnapshot should match previous cumulativeCollateralPerUnitCollateral").to.equal(prevCumulativeCollateralPerUnitCollateral);
+        expect(newStableBaseCDP.pendingRedistribution[_safeId.toString()]?.debtIncrease, "a new safe should have no pending redistributed debt").to.equal(0n);
+        expect(newStableBaseCDP.pendingRedistribution[_safeId.toString()]?.collateralIncrease, "a new safe should have no pending redistributed collateral").to.equal(0n);
 
         // 1c. Protocol-wide Collateral Tracking (totalCollateral)
         const expectedTotalCollateral = prevStableBaseCDP.totalCollateral + _amount;
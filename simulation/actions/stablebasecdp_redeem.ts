@@ -398,8 +398,7 @@ class RedeemAction extends Action {
                 let expectedSbrRewardLoss = prevStabilityPoolSnapshot.sbrRewardLoss;
                 let expectedTotalSbrRewardPerToken = prevStabilityPoolSnapshot.totalSbrRewardPerToken;
 
-                // Using block.timestamp from execution receipt. This is an approximation if not directly available.
-                const blockTimestamp = BigInt(executionReceipt.blockNumber); // Placeholder, ideally use actual block.timestamp
+                const blockTimestamp = BigInt(executionReceipt.blockTimestamp);
 
                 if (prevSbrRewardDistributionStatus === 1n /* STARTED */) {
                     let timeElapsed = blockTimestamp - prevStabilityPoolSnapshot.lastSBRRewardDistributedTime;
@@ -434,7 +433,7 @@ class RedeemAction extends Action {
                 
                 // SBR rewards might still be updated if status changes from NOT_STARTED to STARTED (even if totalStakedRaw is 0)
                 if (prevStabilityPoolSnapshot.sbrRewardDistributionStatus === 0n /* NOT_STARTED */) {
-                    const blockTimestamp = BigInt(executionReceipt.blockNumber); // Placeholder for actual block.timestamp
+                    const blockTimestamp = BigInt(executionReceipt.blockTimestamp);
                     expect(newStabilityPoolSnapshot.lastSBRRewardDistributedTime).to.equal(blockTimestamp, "StabilityPool lastSBRRewardDistributedTime incorrect (NOT_STARTED->STARTED)");
                     expect(newStabilityPoolSnapshot.sbrRewardDistributionEndTime).to.equal(blockTimestamp + (365n * 24n * 60n * 60n), "StabilityPool sbrRewardDistributionEndTime incorrect (NOT_STARTED->STARTED)");
                     expect(newStabilityPoolSnapshot.sbrRewardDistributionStatus).to.equal(1n /* STARTED */, "StabilityPool sbrRewardDistributionStatus incorrect (NOT_STARTED->STARTED)");
@@ -0,0 +1,102 @@
+import {Action, Actor, Snapshot} from "@svylabs/ilumina";
+import type {RunContext, ExecutionReceipt} from "@svylabs/ilumina";
+import {ethers} from "ethers";
+import {expect} from "chai";
+import { StableBaseCDPSnapshot } from "../contracts/snapshot_interfaces";
+import { pickCounterparty } from "./stablebasecdp_transfer_safe";
+
+/**
+ * Makes another actor an operator of all the actor's safes, or revokes it.
+ */
+export class SetApprovalForAllAction extends Action {
+    private contract: ethers.Contract;
+    private actors: Actor[];
+
+    /**
+     * @param actors - Every actor of the run; the operator is drawn from them.
+     */
+    constructor(contract: ethers.Contract, actors: Actor[]) {
+        super("SetApprovalForAllAction");
+        this.contract = contract;
+        this.actors = actors;
+    }
+
+    async initialize(
+        context: RunContext,
+        actor: Actor,
+        currentSnapshot: Snapshot
+    ): Promise<[boolean, any, Record<string, any>]> {
+        const operator = pickCounterparty(context, actor, this.actors);
+        if (!operator) {
+            context.log.info(`SetApprovalForAllAction: no other actor to make an operator.`);
+            return [false, {}, {}];
+        }
+        const approved = context.prng.next() % 2n === 0n;
+        context.log.info(`SetApprovalForAllAction: setting operator ${operator.account.address} to ${approved}`);
+        return [true, { operator: operator.account.address, approved }, {}];
+    }
+
+    async execute(
+        context: RunContext,
+        actor: Actor,
+        currentSnapshot: Snapshot,
+        actionParams: any
+    ): Promise<ExecutionReceipt> {
+        const signer = actor.account.value as ethers.Signer;
+        const tx = await (this.contract.connect(signer) as ethers.Contract).setApprovalForAll(actionParams.operator, actionParams.approved);
+        const receipt = await tx.wait();
+        if (!receipt) {
+            throw new Error("Transaction failed or did not get a receipt.");
+        }
+        return receipt;
+    }
+
+    async validate(
+        context: RunContext,
+        actor: Actor,
+        previousSnapshot: Snapshot,
+        newSnapshot: Snapshot,
+        actionParams: any,
+        executionReceipt: ExecutionReceipt
+    ): Promise<boolean> {
+        const { operator, approved } = actionParams;
+        const owner = actor.account.address;
+        const prevCdp: StableBaseCDPSnapshot = previousSnapshot.contractSnapshot.stableBaseCDP;
+        const newCdp: StableBaseCDPSnapshot = newSnapshot.contractSnapshot.stableBaseCDP;
+
+        expect(executionReceipt.status, "setApprovalForAll transaction should succeed").to.equal(1);
+
+        // 1. Only this owner's approval of this operator changes
+        expect(newCdp.isOperatorApprovedForAll[owner]?.[operator], "Operator approval should match").to.equal(approved);
+        for (const [account, operators] of Object.entries(newCdp.isOperatorApprovedForAll)) {
+            for (const [other, isApproved] of Object.entries(operators)) {
+                if (account === owner && other === operator) {
+                    continue;
+                }
+                expect(isApproved, `Operator approval of ${other} for ${account} should not change`)
+                    .to.equal(prevCdp.isOperatorApprovedForAll[account]?.[other] ?? isApproved);
+            }
+        }
+        expect(newCdp.safeOwner, "Setting an operator should not change owners").to.deep.equal(prevCdp.safeOwner);
+        expect(newCdp.safeApprovedAddress, "Setting an operator should not change single-safe approvals").to.deep.equal(prevCdp.safeApprovedAddress);
+
+        // 2. Gas is the owner's only ETH cost
+        const gasCost = BigInt(executionReceipt.gasUsed) * BigInt(executionReceipt.gasPrice);
+        expect(newSnapshot.accountSnapshot[owner], "Owner's ETH balance should only pay for gas")
+            .to.equal(previousSnapshot.accountSnapshot[owner] - gasCost);
+
+        // 3. Events
+        let approvalForAllEventFound = false;
+        for (const log of executionReceipt.logs) {
+            const parsedLog = this.contract.interface.parseLog(log);
+            if (parsedLog?.name === "ApprovalForAll") {
+                approvalForAllEventFound = true;
+                expect(parsedLog.args.owner, "ApprovalForAll event owner mismatch").to.equal(owner);
+                expect(parsedLog.args.operator, "ApprovalForAll event operator mismatch").to.equal(operator);
+                expect(parsedLog.args.approved, "ApprovalForAll event approved mismatch").to.equal(approved);
+            }
+        }
+        expect(approvalForAllEventFound, "ApprovalForAll event not emitted").to.be.true;
+        return true;
+    }
+}
@@ -0,0 +1,170 @@
+import {Action, Actor, Snapshot} from "@svylabs/ilumina";
+import type {RunContext, ExecutionReceipt} from "@svylabs/ilumina";
+import {ethers} from "ethers";
+import {expect} from "chai";
+import { StableBaseCDPSnapshot } from "../contracts/snapshot_interfaces";
+import { collectActorSafeIds, moveActorSafeId } from "../contracts/safe_discovery";
+
+// Actors whose actions depend on owning a safe, preferred as recipients
+const SAFE_HOLDING_ACTORS = ["Borrower", "WhaleBorrower", "NftTrader"];
+
+/**
+ * Compares two addresses whatever their checksum casing; an unset address matches nothing.
+ */
+export function sameAddress(a: string | undefined, b: string | undefined): boolean {
+    return a !== undefined && b !== undefined && a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Picks another actor to deal with, preferring those whose actions use safes.
+ */
+export function pickCounterparty(context: RunContext, actor: Actor, actors: Actor[]): Actor | undefined {
+    const others = actors.filter(other => !sameAddress(other.account.address, actor.account.address));
+    const holders = others.filter(other => SAFE_HOLDING_ACTORS.includes(other.name));
+    const candidates = holders.length > 0 ? holders : others;
+    if (candidates.length === 0) {
+        return undefined;
+    }
+    return candidates[Number(context.prng.next() % BigInt(candidates.length))];
+}
+
+/**
+ * The safes an address may transfer: those it owns, is approved for, or whose owner made it an operator.
+ */
+export function transferableSafeIds(cdp: StableBaseCDPSnapshot, address: string): bigint[] {
+    return Object.entries(cdp.safeOwner)
+        .filter(([safeId, owner]) => {
+            if (sameAddress(owner, address) || sameAddress(cdp.safeApprovedAddress[safeId], address)) {
+                return true;
+            }
+            const operators = Object.entries(cdp.isOperatorApprovedForAll)
+                .find(([candidate]) => sameAddress(candidate, owner))?.[1] ?? {};
+            return Object.entries(operators).some(([operator, approved]) => approved && sameAddress(operator, address));
+        })
+        .map(([safeId]) => BigInt(safeId));
+}
+
+/**
+ * Transfers a safe NFT the actor controls to another actor, with transferFrom or safeTransferFrom,
+ * and moves the safe's actor identifier to the recipient so that its later actions find the safe.
+ */
+export class TransferSafeAction extends Action {
+    private contract: ethers.Contract;
+    private actors: Actor[];
+
+    /**
+     * @param actors - Every actor of the run; recipients are drawn from them. The array may be filled after construction.
+     */
+    constructor(contract: ethers.Contract, actors: Actor[]) {
+        super("TransferSafeAction");
+        this.contract = contract;
+        this.actors = actors;
+    }
+
+    async initialize(
+        context: RunContext,
+        actor: Actor,
+        currentSnapshot: Snapshot
+    ): Promise<[boolean, any, Record<string, any>]> {
+        const cdp: StableBaseCDPSnapshot = currentSnapshot.contractSnapshot.stableBaseCDP;
+        const safeIds = transferableSafeIds(cdp, actor.account.address);
+        if (safeIds.length === 0) {
+            context.log.info(`TransferSafeAction: ${actor.account.address} controls no safe.`);
+            return [false, {}, {}];
+        }
+        const safeId = safeIds[Number(context.prng.next() % BigInt(safeIds.length))];
+        const from = cdp.safeOwner[safeId.toString()];
+        const recipient = pickCounterparty(context, actor, this.actors.filter(other => !sameAddress(other.account.address, from)));
+        if (!recipient) {
+            context.log.info(`TransferSafeAction: no actor to transfer safe ${safeId} to.`);
+            return [false, {}, {}];
+        }
+        const safe = context.prng.next() % 2n === 0n;
+        context.log.info(`TransferSafeAction: ${safe ? "safeTransferFrom" : "transferFrom"} of safe ${safeId} from ${from} to ${recipient.account.address}`);
+        return [true, { safeId, from, to: recipient.account.address, safe }, {}];
+    }
+
+    async execute(
+        context: RunContext,
+        actor: Actor,
+        currentSnapshot: Snapshot,
+        actionParams: any
+    ): Promise<ExecutionReceipt> {
+        const { safeId, from, to, safe } = actionParams;
+        const signer = actor.account.value as ethers.Signer;
+        const connectedContract = this.contract.connect(signer) as ethers.Contract;
+        const tx = safe
+            ? await connectedContract["safeTransferFrom(address,address,uint256)"](from, to, safeId)
+            : await connectedContract.transferFrom(from, to, safeId);
+        const receipt = await tx.wait();
+        if (!receipt) {
+            throw new Error("Transaction failed or did not get a receipt.");
+        }
+        moveActorSafeId(this.actors, safeId, to);
+        return receipt;
+    }
+
+    async validate(
+        context: RunContext,
+        actor: Actor,
+        previousSnapshot: Snapshot,
+        newSnapshot: Snapshot,
+        actionParams: any,
+        executionReceipt: ExecutionReceipt
+    ): Promise<boolean> {
+        const { safeId, from, to } = actionParams;
+        const key = safeId.toString();
+        const prevCdp: StableBaseCDPSnapshot = previousSnapshot.contractSnapshot.stableBaseCDP;
+        const newCdp: StableBaseCDPSnapshot = newSnapshot.contractSnapshot.stableBaseCDP;
+
+        expect(executionReceipt.status, "Transfer transaction should succeed").to.equal(1);
+
+        // 1. Ownership and balances
+        expect(newCdp.safeOwner[key], "Safe should be owned by the recipient").to.equal(to);
+        if (prevCdp.balanceOfSafes[from] !== undefined) {
+            expect(newCdp.balanceOfSafes[from], "Sender's safe balance should decrease by 1").to.equal(prevCdp.balanceOfSafes[from] - 1n);
+        }
+        if (prevCdp.balanceOfSafes[to] !== undefined) {
+            expect(newCdp.balanceOfSafes[to], "Recipient's safe balance should increase by 1").to.equal(prevCdp.balanceOfSafes[to] + 1n);
+        }
+        expect(newCdp.safeApprovedAddress[key], "The safe's approval should be cleared by the transfer").to.equal(ethers.ZeroAddress);
+
+        // 2. The position itself is untouched: only the NFT moves
+        expect(newCdp.safeDetails[key], "Safe details should not change on transfer").to.deep.equal(prevCdp.safeDetails[key]);
+        expect(newCdp.totalCollateral, "totalCollateral should not change on transfer").to.equal(prevCdp.totalCollateral);
+        expect(newCdp.totalDebt, "totalDebt should not change on transfer").to.equal(prevCdp.totalDebt);
+        expect(newSnapshot.contractSnapshot.safesOrderedForLiquidation.nodes[key], "Liquidation queue node should not change on transfer")
+            .to.deep.equal(previousSnapshot.contractSnapshot.safesOrderedForLiquidation.nodes[key]);
+        expect(newSnapshot.contractSnapshot.safesOrderedForRedemption.nodes[key], "Redemption queue node should not change on transfer")
+            .to.deep.equal(previousSnapshot.contractSnapshot.safesOrderedForRedemption.nodes[key]);
+
+        // 3. Gas is the caller's only ETH cost
+        const gasCost = BigInt(executionReceipt.gasUsed) * BigInt(executionReceipt.gasPrice);
+        expect(newSnapshot.accountSnapshot[actor.account.address], "Caller's ETH balance should only pay for gas")
+            .to.equal(previousSnapshot.accountSnapshot[actor.account.address] - gasCost);
+
+        // 4. Events
+        let transferEventFound = false;
+        for (const log of executionReceipt.logs) {
+            const parsedLog = this.contract.interface.parseLog(log);
+            if (parsedLog?.name === "Transfer") {
+                transferEventFound = true;
+                expect(parsedLog.args.from, "Transfer event from mismatch").to.equal(from);
+                expect(parsedLog.args.to, "Transfer event to mismatch").to.equal(to);
+                expect(parsedLog.args.tokenId, "Transfer event tokenId mismatch").to.equal(safeId);
+            }
+        }
+        expect(transferEventFound, "Transfer event not emitted").to.be.true;
+
+        // 5. Identifiers follow the safe, so the recipient's borrow, repay and close actions find it
+        const recipient = this.actors.find(other => sameAddress(other.account.address, to));
+        if (recipient) {
+            expect(collectActorSafeIds([recipient]), "Recipient's identifiers should include the safe").to.include(safeId);
+        }
+        const sender = this.actors.find(other => sameAddress(other.account.address, from));
+        if (sender) {
+            expect(collectActorSafeIds([sender]), "Sender's identifiers should no longer include the safe").to.not.include(safeId);
+        }
+        return true;
+    }
+}
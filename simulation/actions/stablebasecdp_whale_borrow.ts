@@ -0,0 +1,92 @@
+import {Actor, Snapshot} from "@svylabs/ilumina";
+import type {RunContext} from "@svylabs/ilumina";
+import {ethers} from "ethers";
+import { BorrowAction } from "./stablebasecdp_borrow";
+import { StableBaseCDPSnapshot } from "../contracts/snapshot_interfaces";
+
+const BASIS_POINTS_DIVISOR = 10000n;
+const PRECISION = 10n ** 18n;
+const MINIMUM_DEBT = 2000n * PRECISION;
+// 150% in basis points, as stablebasecdp_liquidatesafe assumes
+const LIQUIDATION_RATIO_ASSUMED = 15000n;
+
+/**
+ * Borrows multi-million DFID against a whale's safe, so total debt crosses BOOTSTRAP_MODE_DEBT_THRESHOLD
+ * and the NORMAL-mode branches of the CDP validators run. Execution and validation are BorrowAction's;
+ * the amount is drawn between the whale's minimum and 90% of what the collateral allows.
+ */
+export class WhaleBorrowAction extends BorrowAction {
+    private minimumBorrow: bigint;
+
+    /**
+     * @param minimumBorrow - The smallest amount, in DFID wei, to borrow when the safe allows it.
+     */
+    constructor(contract: ethers.Contract, minimumBorrow: bigint, name: string = "WhaleBorrowAction") {
+        super(contract, name);
+        this.minimumBorrow = minimumBorrow;
+    }
+
+    async initialize(
+        context: RunContext,
+        actor: Actor,
+        currentSnapshot: Snapshot
+    ): Promise<[boolean, any, Record<string, any>]> {
+        const cdp: StableBaseCDPSnapshot = currentSnapshot.contractSnapshot.stableBaseCDP;
+        const price: bigint = currentSnapshot.contractSnapshot.mockPriceOracle.fetchedPrice;
+        if (price === 0n) {
+            context.log.info(`WhaleBorrowAction: Price oracle returned 0. Cannot calculate max borrow amount.`);
+            return [false, {}, {}];
+        }
+
+        // The owned safe with the most room left; 10% of the room is kept as a buffer against rounding and fees
+        let best: { safeId: bigint; borrowed: bigint; capacity: bigint } | undefined;
+        for (const [safeId, owner] of Object.entries(cdp.safeOwner)) {
+            const safe = cdp.safeDetails[safeId];
+            if (owner !== actor.account.address || !safe || safe.collateralAmount === 0n) {
+                continue;
+            }
+            const maxBorrow = ((safe.collateralAmount * price * BASIS_POINTS_DIVISOR) / LIQUIDATION_RATIO_ASSUMED) / PRECISION;
+            const capacity = (maxBorrow * 9n) / 10n - safe.borrowedAmount;
+            if (!best || capacity > best.capacity) {
+                best = { safeId: BigInt(safeId), borrowed: safe.borrowedAmount, capacity };
+            }
+        }
+        if (!best) {
+            context.log.info(`WhaleBorrowAction: ${actor.account.address} owns no safe with collateral.`);
+            return [false, {}, {}];
+        }
+
+        const minimum = best.borrowed < MINIMUM_DEBT ? MINIMUM_DEBT - best.borrowed : 1n;
+        if (best.capacity < minimum) {
+            context.log.info(`WhaleBorrowAction: Safe ${best.safeId} can borrow ${best.capacity} more, below the ${minimum} required.`);
+            return [false, {}, {}];
+        }
+        const lower = this.minimumBorrow < best.capacity
+            ? (this.minimumBorrow > minimum ? this.minimumBorrow : minimum)
+            : minimum;
+        const amount = lower + context.prng.nextBigInt(best.capacity - lower + 1n);
+        const shieldingRate = context.prng.nextBigInt(501n); // Max 500 basis points (5%)
+
+        const liquidationNodeIds = Object.keys(currentSnapshot.contractSnapshot.safesOrderedForLiquidation.nodes)
+            .map(id => BigInt(id))
+            .filter(id => id !== 0n);
+        const redemptionNodeIds = Object.keys(currentSnapshot.contractSnapshot.safesOrderedForRedemption.nodes)
+            .map(id => BigInt(id))
+            .filter(id => id !== 0n);
+
+        const actionParams = {
+            safeId: best.safeId,
+            amount: amount,
+            shieldingRate: shieldingRate,
+            nearestSpotInLiquidationQueue: liquidationNodeIds.length > 0
+                ? liquidationNodeIds[Number(context.prng.next() % BigInt(liquidationNodeIds.length))]
+                : 0n,
+            nearestSpotInRedemptionQueue: redemptionNodeIds.length > 0
+                ? redemptionNodeIds[Number(context.prng.next() % BigInt(redemptionNodeIds.length))]
+                : 0n,
+        };
+
+        context.log.info(`WhaleBorrowAction: borrowing ${amount} against safe ${best.safeId} (total debt ${cdp.totalDebt})`);
+        return [true, actionParams, {}];
+    }
+}
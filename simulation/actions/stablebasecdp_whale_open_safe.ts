@@ -0,0 +1,61 @@
+import {Actor, Snapshot} from "@svylabs/ilumina";
+import type {RunContext} from "@svylabs/ilumina";
+import {ethers} from "ethers";
+import { OpenSafeAction } from "./stablebasecdp_opensafe";
+
+const BASIS_POINTS_DIVISOR = 10000n;
+const PRECISION = 10n ** 18n;
+// 150% in basis points, as stablebasecdp_liquidatesafe assumes
+const LIQUIDATION_RATIO_ASSUMED = 15000n;
+// Collateral for twice the target debt, so the safe survives the price halving
+const COLLATERAL_MARGIN = 2n;
+const GAS_BUFFER = ethers.parseEther("0.1");
+
+/**
+ * The collateral that backs `debt` DFID at `price` with COLLATERAL_MARGIN to spare.
+ */
+export function whaleCollateralFor(debt: bigint, price: bigint): bigint {
+    return (debt * LIQUIDATION_RATIO_ASSUMED * PRECISION * COLLATERAL_MARGIN) / (price * BASIS_POINTS_DIVISOR);
+}
+
+/**
+ * Opens a safe with enough collateral to borrow a whale-sized debt at the current price.
+ * Execution and validation are OpenSafeAction's; only the amount differs.
+ */
+export class OpenWhaleSafeAction extends OpenSafeAction {
+    private targetDebt: bigint;
+
+    /**
+     * @param targetDebt - The DFID debt, in wei, the safe's collateral should be able to back.
+     */
+    constructor(contract: ethers.Contract, targetDebt: bigint) {
+        super(contract, "OpenWhaleSafeAction");
+        this.targetDebt = targetDebt;
+    }
+
+    async initialize(
+        context: RunContext,
+        actor: Actor,
+        currentSnapshot: Snapshot
+    ): Promise<[boolean, any, Record<string, any>]> {
+        const price: bigint = currentSnapshot.contractSnapshot.mockPriceOracle.fetchedPrice;
+        if (price === 0n) {
+            context.log.info(`OpenWhaleSafeAction: Price oracle returned 0. Cannot size the collateral.`);
+            return [false, {}, {}];
+        }
+        const collateral = whaleCollateralFor(this.targetDebt, price);
+        const balance = BigInt(currentSnapshot.accountSnapshot[actor.account.address] ?? 0n);
+        if (balance < collateral + GAS_BUFFER) {
+            context.log.info(`OpenWhaleSafeAction: ${actor.account.address} holds ${balance} wei but needs ${collateral} to back ${this.targetDebt} DFID; waiting for funding.`);
+            return [false, {}, {}];
+        }
+
+        // The parent picks a fresh safe ID and checks the balance; the amount is replaced by the whale's
+        const [ready, actionParams, newIdentifiers] = await super.initialize(context, actor, currentSnapshot);
+        if (!ready) {
+            return [false, {}, {}];
+        }
+        context.log.info(`OpenWhaleSafeAction: opening safe ${actionParams._safeId} with ${collateral} wei of collateral`);
+        return [true, { ...actionParams, _amount: collateral }, newIdentifiers];
+    }
+}
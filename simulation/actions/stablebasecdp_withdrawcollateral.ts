@@ -50,8 +50,8 @@ export class WithdrawcollateralAction extends Action {
       // Simulate _updateSafe logic to get effective collateral and borrowed amounts
       const safeLiquidationSnapshot = cdpSnapshot.liquidationSnapshots?.[safeId];
 
-      const snapshotCollateralPerCollateral = safeLiquidationSnapshot?.cumulativeCollateralPerUnitCollateral || 0n;
-      const snapshotDebtPerCollateral = safeLiquidationSnapshot?.cumulativeDebtPerCollateral || 0n;
+      const snapshotCollateralPerCollateral = safeLiquidationSnapshot?.collateralPerCollateralSnapshot || 0n;
+      const snapshotDebtPerCollateral = safeLiquidationSnapshot?.debtPerCollateralSnapshot || 0n;
 
       let effectiveCollateralAmount = prevSafeDetails.collateralAmount;
       let effectiveBorrowedAmount = prevSafeDetails.borrowedAmount;
@@ -65,7 +65,7 @@ export class WithdrawcollateralAction extends Action {
         effectiveCollateralAmount += collateralIncrease;
 
         const debtIncrease = (prevSafeDetails.collateralAmount *
-          (cdpSnapshot.cumulativeDebtPerCollateral -
+          (cdpSnapshot.cumulativeDebtPerUnitCollateral -
             snapshotDebtPerCollateral)) / PRECISION;
         effectiveBorrowedAmount += debtIncrease;
       }
@@ -104,8 +104,8 @@ export class WithdrawcollateralAction extends Action {
     let effectiveCollateralAmount = safeDetails.collateralAmount;
     let effectiveBorrowedAmount = safeDetails.borrowedAmount;
 
-    const snapshotCollateralPerCollateral = safeLiquidationSnapshot?.cumulativeCollateralPerUnitCollateral || 0n;
-    const snapshotDebtPerCollateral = safeLiquidationSnapshot?.cumulativeDebtPerCollateral || 0n;
+    const snapshotCollateralPerCollateral = safeLiquidationSnapshot?.collateralPerCollateralSnapshot || 0n;
+    const snapshotDebtPerCollateral = safeLiquidationSnapshot?.debtPerCollateralSnapshot || 0n;
 
     if (
       snapshotCollateralPerCollateral !== cdpSnapshot.cumulativeCollateralPerUnitCollateral
@@ -116,7 +116,7 @@ export class WithdrawcollateralAction extends Action {
       effectiveCollateralAmount += collateralIncrease;
 
       const debtIncrease = (safeDetails.collateralAmount *
-        (cdpSnapshot.cumulativeDebtPerCollateral -
+        (cdpSnapshot.cumulativeDebtPerUnitCollateral -
           snapshotDebtPerCollateral)) / PRECISION;
       effectiveBorrowedAmount += debtIncrease;
     }
@@ -225,15 +225,15 @@ export class WithdrawcollateralAction extends Action {
     const prevSafeDetails = prevCdpSnapshot.safeDetails[safeId];
     const prevSafeLiquidationSnapshot = prevCdpSnapshot.liquidationSnapshots?.[safeId];
 
-    const prevSnapshotCollateralPerCollateral = prevSafeLiquidationSnapshot?.cumulativeCollateralPerUnitCollateral || 0n;
-    const prevSnapshotDebtPerCollateral = prevSafeLiquidationSnapshot?.cumulativeDebtPerCollateral || 0n;
+    const prevSnapshotCollateralPerCollateral = prevSafeLiquidationSnapshot?.collateralPerCollateralSnapshot || 0n;
+    const prevSnapshotDebtPerCollateral = prevSafeLiquidationSnapshot?.debtPerCollateralSnapshot || 0n;
 
     let initialEffectiveBorrowedAmount = prevSafeDetails.borrowedAmount;
     if (
       prevSnapshotCollateralPerCollateral !== prevCdpSnapshot.cumulativeCollateralPerUnitCollateral
     ) {
       const simulatedDebtIncrease = (prevSafeDetails.collateralAmount *
-        (prevCdpSnapshot.cumulativeDebtPerCollateral -
+        (prevCdpSnapshot.cumulativeDebtPerUnitCollateral -
           prevSnapshotDebtPerCollateral)) / PRECISION;
       initialEffectiveBorrowedAmount += simulatedDebtIncrease;
     }
@@ -270,12 +270,12 @@ export class WithdrawcollateralAction extends Action {
     expect(newSafeDetails.totalBorrowedAmount).to.equal(prevSafeTotalBorrowedAmount + debtIncrease, "Safe totalBorrowedAmount mismatch");
 
     // Verify liquidation snapshots
-    expect(newCdpSnapshot.liquidationSnapshots[safeId].cumulativeCollateralPerUnitCollateral).to.equal(
+    expect(newCdpSnapshot.liquidationSnapshots[safeId].collateralPerCollateralSnapshot).to.equal(
       newCdpSnapshot.cumulativeCollateralPerUnitCollateral,
       "liquidationSnapshots collateralPerCollateralSnapshot mismatch"
     );
-    expect(newCdpSnapshot.liquidationSnapshots[safeId].cumulativeDebtPerCollateral).to.equal(
-      newCdpSnapshot.cumulativeDebtPerCollateral,
+    expect(newCdpSnapshot.liquidationSnapshots[safeId].debtPerCollateralSnapshot).to.equal(
+      newCdpSnapshot.cumulativeDebtPerUnitCollateral,
       "liquidationSnapshots debtPerCollateralSnapshot mismatch"
     );
 
@@ -0,0 +1,138 @@
+import {Action, Actor, Snapshot} from "@svylabs/ilumina";
+import type {RunContext, ExecutionReceipt} from "@svylabs/ilumina";
+import {expect} from 'chai';
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { noTransactionReceipt, snapshotBlock } from "../snapshots/block_context";
+import { StabilityPoolSnapshot } from "../contracts/snapshot_interfaces";
+import { SBR_DISTRIBUTION_STARTED, sbrEmissionDue } from "../invariants/stability_pool";
+
+function max(a: bigint, b: bigint): bigint {
+    return a > b ? a : b;
+}
+
+function min(a: bigint, b: bigint): bigint {
+    return a < b ? a : b;
+}
+
+/**
+ * A range of time jumps, in seconds, that one AdvanceTimeAction draws from.
+ */
+export interface TimeJumpRange {
+    /** Names the action, e.g. "days" gives AdvanceTimeAction(days). */
+    label: string;
+    minSeconds: number;
+    maxSeconds: number;
+    /** The probability the actor picks this range at a step. */
+    probability: number;
+}
+
+const MINUTE = 60;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export const DEFAULT_TIME_JUMPS: TimeJumpRange[] = [
+    { label: "seconds", minSeconds: 1, maxSeconds: MINUTE - 1, probability: 0.4 },
+    { label: "hours", minSeconds: HOUR, maxSeconds: DAY - 1, probability: 0.3 },
+    { label: "days", minSeconds: DAY, maxSeconds: 30 * DAY - 1, probability: 0.2 },
+    { label: "months", minSeconds: 30 * DAY, maxSeconds: 90 * DAY, probability: 0.1 },
+];
+
+/**
+ * Moves chain time forward with evm_increaseTime and mines a block, so the time-based logic
+ * (the stability pool's 365-day SBR emission above all) sees more than the one second automine leaves
+ * between blocks. No transaction is sent.
+ */
+export class AdvanceTimeAction extends Action {
+    private range: TimeJumpRange;
+
+    constructor(range: TimeJumpRange) {
+        super(`AdvanceTimeAction(${range.label})`);
+        if (!Number.isInteger(range.minSeconds) || range.minSeconds < 1 || range.maxSeconds < range.minSeconds) {
+            throw new Error(`Invalid time jump range ${range.label}: ${range.minSeconds}..${range.maxSeconds} seconds`);
+        }
+        this.range = range;
+    }
+
+    async initialize(
+        context: RunContext,
+        actor: Actor,
+        currentSnapshot: Snapshot
+    ): Promise<[boolean, any, Record<string, any>]> {
+        const span = BigInt(this.range.maxSeconds - this.range.minSeconds + 1);
+        const seconds = BigInt(this.range.minSeconds) + context.prng.next() % span;
+        context.log.info(`AdvanceTimeAction: advancing chain time by ${seconds} seconds (${this.range.label})`);
+        return [true, { seconds }, {}];
+    }
+
+    async execute(
+        context: RunContext,
+        actor: Actor,
+        currentSnapshot: Snapshot,
+        actionParams: any
+    ): Promise<ExecutionReceipt> {
+        const signer = actor.account.value as HardhatEthersSigner;
+        await signer.provider.send("evm_increaseTime", [Number(actionParams.seconds)]);
+        await signer.provider.send("evm_mine", []);
+        return noTransactionReceipt(signer.provider);
+    }
+
+    async validate(
+        context: RunContext,
+        actor: Actor,
+        previousSnapshot: Snapshot,
+        newSnapshot: Snapshot,
+        actionParams: any,
+        executionReceipt: ExecutionReceipt
+    ): Promise<boolean> {
+        const previousBlock = snapshotBlock(previousSnapshot);
+        const newBlock = snapshotBlock(newSnapshot);
+
+        // 1. Exactly one empty block was mined, at least the jump after the previous one
+        expect(newBlock.number, "AdvanceTimeAction should mine exactly one block").to.equal(previousBlock.number + 1n);
+        const elapsed = newBlock.timestamp - previousBlock.timestamp;
+        expect(elapsed >= actionParams.seconds, `Chain time advanced by ${elapsed}s, less than the ${actionParams.seconds}s jump`).to.be.true;
+
+        // 2. SBR rewards accrue lazily: only the next stake, unstake or claim distributes the elapsed time,
+        // so the accumulators must be untouched; stability-pool-sbr-accrual checks that distribution
+        const previousPool: StabilityPoolSnapshot = previousSnapshot.contractSnapshot.stabilityPool;
+        const newPool: StabilityPoolSnapshot = newSnapshot.contractSnapshot.stabilityPool;
+        expect(newPool.totalSbrRewardPerToken, "totalSbrRewardPerToken should not change without a transaction").to.equal(previousPool.totalSbrRewardPerToken);
+        expect(newPool.sbrRewardLoss, "sbrRewardLoss should not change without a transaction").to.equal(previousPool.sbrRewardLoss);
+        expect(newPool.lastSBRRewardDistributedTime, "lastSBRRewardDistributedTime should not change without a transaction").to.equal(previousPool.lastSBRRewardDistributedTime);
+        expect(newPool.sbrRewardDistributionStatus, "sbrRewardDistributionStatus should not change without a transaction").to.equal(previousPool.sbrRewardDistributionStatus);
+        expect(newPool.sbrRewardDistributionEndTime, "sbrRewardDistributionEndTime should not change without a transaction").to.equal(previousPool.sbrRewardDistributionEndTime);
+
+        // 3. The emission owed grows by the rate for every second of the jump inside the schedule, and no more
+        const previousDue = sbrEmissionDue(previousPool, previousBlock.timestamp);
+        const newDue = sbrEmissionDue(newPool, newBlock.timestamp);
+        let expectedAccrual = 0n;
+        if (newPool.sbrRewardDistributionStatus === SBR_DISTRIBUTION_STARTED) {
+            const from = max(previousBlock.timestamp, newPool.lastSBRRewardDistributedTime);
+            const until = min(newBlock.timestamp, newPool.sbrRewardDistributionEndTime);
+            expectedAccrual = until > from ? (until - from) * newPool.sbrDistributionRate : 0n;
+        }
+        expect(newDue - previousDue, `SBR emission owed should grow by ${expectedAccrual} over the jump`).to.equal(expectedAccrual);
+        if (newPool.sbrRewardDistributionStatus === SBR_DISTRIBUTION_STARTED && newBlock.timestamp > newPool.sbrRewardDistributionEndTime) {
+            context.log.info(`AdvanceTimeAction: the SBR schedule ended at ${newPool.sbrRewardDistributionEndTime}; the next distribution must end it`);
+        }
+
+        // 4. No depositor's pending SBR shrinks, and together they gain no more than the emission owed grew by
+        let pendingSbrIncrease = 0n;
+        for (const [address, [, , newPendingSbr]] of Object.entries(newPool.userPendingRewardAndCollateral)) {
+            const previousPending = previousPool.userPendingRewardAndCollateral[address];
+            if (!previousPending) {
+                continue;
+            }
+            const previousPendingSbr = previousPending[2];
+            expect(newPendingSbr >= previousPendingSbr, `Pending SBR of ${address} decreased from ${previousPendingSbr} to ${newPendingSbr}`).to.be.true;
+            pendingSbrIncrease += newPendingSbr - previousPendingSbr;
+        }
+        expect(pendingSbrIncrease <= newDue - previousDue, `Pending SBR grew by ${pendingSbrIncrease}, more than the ${newDue - previousDue} emission owed`).to.be.true;
+
+        // 5. No ETH moved: the actor sent nothing and paid no gas
+        expect(newSnapshot.accountSnapshot[actor.account.address], "TimeKeeper's ETH balance should not change").to.equal(previousSnapshot.accountSnapshot[actor.account.address]);
+
+        context.log.info(`AdvanceTimeAction: advanced ${elapsed}s to ${newBlock.timestamp}; SBR emission owed ${previousDue} -> ${newDue}`);
+        return true;
+    }
+}
@@ -0,0 +1,71 @@
+import {Action, Actor, Snapshot} from "@svylabs/ilumina";
+import type {RunContext, ExecutionReceipt} from "@svylabs/ilumina";
+import {expect} from 'chai';
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { noTransactionReceipt, snapshotBlock } from "../snapshots/block_context";
+import { expectOnlyPathsChanged } from "../snapshots/diff";
+import { BalanceOverrideSink } from "../invariants/eth_conservation";
+
+/**
+ * Tops a whale's ETH up to its funding target with hardhat_setBalance, far beyond the 1000 ETH
+ * a Hardhat account starts with, so it can back multi-million DFID debts at any mock price.
+ * The action is skipped while the whale still holds half of its target. No transaction is sent.
+ */
+export class FundWhaleAction extends Action {
+    private fundingTarget: bigint;
+    private overrides: BalanceOverrideSink;
+
+    /**
+     * @param fundingTarget - The balance to set, in wei.
+     * @param overrides - Where the balance set is reported, so eth-conservation accounts for it.
+     */
+    constructor(fundingTarget: bigint, overrides: BalanceOverrideSink) {
+        super("FundWhaleAction");
+        this.fundingTarget = fundingTarget;
+        this.overrides = overrides;
+    }
+
+    async initialize(
+        context: RunContext,
+        actor: Actor,
+        currentSnapshot: Snapshot
+    ): Promise<[boolean, any, Record<string, any>]> {
+        const balance = BigInt(currentSnapshot.accountSnapshot[actor.account.address] ?? 0n);
+        if (balance * 2n >= this.fundingTarget) {
+            context.log.info(`FundWhaleAction: ${actor.account.address} still holds ${balance} wei, no funding needed`);
+            return [false, {}, {}];
+        }
+        return [true, { balance: this.fundingTarget }, {}];
+    }
+
+    async execute(
+        context: RunContext,
+        actor: Actor,
+        currentSnapshot: Snapshot,
+        actionParams: any
+    ): Promise<ExecutionReceipt> {
+        const signer = actor.account.value as HardhatEthersSigner;
+        const previousBalance = await signer.provider.getBalance(actor.account.address);
+        await signer.provider.send("hardhat_setBalance", [actor.account.address, "0x" + actionParams.balance.toString(16)]);
+        this.overrides.recordBalanceOverride({ address: actor.account.address, previousBalance, balance: actionParams.balance });
+        context.log.info(`FundWhaleAction: set the balance of ${actor.account.address} from ${previousBalance} to ${actionParams.balance} wei`);
+        return noTransactionReceipt(signer.provider);
+    }
+
+    async validate(
+        context: RunContext,
+        actor: Actor,
+        previousSnapshot: Snapshot,
+        newSnapshot: Snapshot,
+        actionParams: any,
+        executionReceipt: ExecutionReceipt
+    ): Promise<boolean> {
+        // hardhat_setBalance mines no block, so the new snapshot reads the same block with the new balance
+        expect(snapshotBlock(newSnapshot).number, "FundWhaleAction should not mine a block").to.equal(snapshotBlock(previousSnapshot).number);
+        expect(BigInt(newSnapshot.accountSnapshot[actor.account.address]), "Whale balance should equal the funding target").to.equal(actionParams.balance);
+
+        // Only the whale's ETH moves: no contract state, and no other balance, changes
+        expectOnlyPathsChanged(previousSnapshot, newSnapshot, [`accountSnapshot[${actor.account.address}]`]);
+        return true;
+    }
+}
@@ -0,0 +1,42 @@
+import { Action, Actor, Account } from "@svylabs/ilumina";
+import type { RunContext } from "@svylabs/ilumina";
+import { Snapshot } from "@svylabs/ilumina";
+import { Contract} from "ethers";
+import { withSnapshotDiff } from "../snapshots/diff";
+import { withReceiptBlock } from "../snapshots/block_context";
+
+
+import { SetAddressesAgainAction } from "../actions/admin_set_addresses";
+
+import { TransferOwnershipAction } from "../actions/admin_transfer_ownership";
+
+import { NonOwnerCallAction } from "../actions/admin_non_owner_call";
+
+
+/**
+ * The protocol admin: the deployer that wired the contracts in deployContracts. It probes the
+ * owner-only surface, its own calls and other actors', which must leave the wiring untouched.
+ * @param account - The deployer's account.
+ * @param actors - Every actor of the run, whose signers send the non-owner calls; it may still be filling when this is called.
+ */
+export function createAdminActor(account: Account, contracts: Record<string, Contract>, actors: Actor[]): Actor {
+    let actor;
+    const actions: Action[] = [];
+    let action;
+    
+    action = withSnapshotDiff(withReceiptBlock(new SetAddressesAgainAction(contracts, actors)));
+    actions.push({action: action, probability: 0.2});
+    
+    action = withSnapshotDiff(withReceiptBlock(new TransferOwnershipAction(contracts, actors)));
+    actions.push({action: action, probability: 0.2});
+    
+    action = withSnapshotDiff(withReceiptBlock(new NonOwnerCallAction(contracts, actors)));
+    actions.push({action: action, probability: 0.3});
+    
+    actor = new Actor(
+        "Admin",
+        account,
+        actions,
+    );
+    return actor;
+}
@@ -2,6 +2,8 @@ import { Action, Actor, Account } from "@svylabs/ilumina";
 import type { RunContext } from "@svylabs/ilumina";
 import { Snapshot } from "@svylabs/ilumina";
 import { Contract} from "ethers";
+import { withSnapshotDiff } from "../snapshots/diff";
+import { withReceiptBlock } from "../snapshots/block_context";
 
 
 import { OpenSafeAction } from "../actions/stablebasecdp_open_safe";
@@ -24,25 +26,25 @@ export function createBorrowerActor(account: Account, contracts: Record<string,
     const actions: Action[] = [];
     let action;
     
-    action = new OpenSafeAction(contracts.stableBaseCDP);
+    action = withSnapshotDiff(withReceiptBlock(new OpenSafeAction(contracts.stableBaseCDP)));
     actions.push({action: action, probability: 0.7});
     
-    action = new CloseSafeAction(contracts.stableBaseCDP);
+    action = withSnapshotDiff(withReceiptBlock(new CloseSafeAction(contracts.stableBaseCDP)));
     actions.push({action: action, probability: 0.3});
     
-    action = new BorrowAction(contracts.stableBaseCDP);
+    action = withSnapshotDiff(withReceiptBlock(new BorrowAction(contracts.stableBaseCDP)));
     actions.push({action: action, probability: 0.8});
     
-    action = new RepayAction(contracts.stableBaseCDP);
+    action = withSnapshotDiff(withReceiptBlock(new RepayAction(contracts.stableBaseCDP)));
     actions.push({action: action, probability: 0.7});
     
-    action = new AddCollateralAction(contracts.stableBaseCDP);
+    action = withSnapshotDiff(withReceiptBlock(new AddCollateralAction(contracts.stableBaseCDP)));
     actions.push({action: action, probability: 0.6});
     
-    action = new WithdrawCollateralAction(contracts.stableBaseCDP);
+    action = withSnapshotDiff(withReceiptBlock(new WithdrawCollateralAction(contracts.stableBaseCDP)));
     actions.push({action: action, probability: 0.5});
     
-    action = new FeeTopupAction(contracts.stableBaseCDP);
+    action = withSnapshotDiff(withReceiptBlock(new FeeTopupAction(contracts.stableBaseCDP)));
     actions.push({action: action, probability: 0.2});
     
     actor = new Actor(
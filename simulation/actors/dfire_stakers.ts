@@ -2,6 +2,8 @@ import { Action, Actor, Account } from "@svylabs/ilumina";
 import type { RunContext } from "@svylabs/ilumina";
 import { Snapshot } from "@svylabs/ilumina";
 import { Contract} from "ethers";
+import { withSnapshotDiff } from "../snapshots/diff";
+import { withReceiptBlock } from "../snapshots/block_context";
 
 
 import { StakeAction } from "../actions/dfirestaking_stake";
@@ -16,13 +18,13 @@ export function createDfireStakersActor(account: Account, contracts: Record<stri
     const actions: Action[] = [];
     let action;
     
-    action = new StakeAction(contracts.dfireStaking);
+    action = withSnapshotDiff(withReceiptBlock(new StakeAction(contracts.dfireStaking)));
     actions.push({action: action, probability: 0.8});
     
-    action = new UnstakeAction(contracts.dfireStaking);
+    action = withSnapshotDiff(withReceiptBlock(new UnstakeAction(contracts.dfireStaking)));
     actions.push({action: action, probability: 0.6});
     
-    action = new ClaimAction(contracts.dfireStaking);
+    action = withSnapshotDiff(withReceiptBlock(new ClaimAction(contracts.dfireStaking)));
     actions.push({action: action, probability: 0.7});
     
     actor = new Actor(
@@ -17,9 +17,27 @@ import { createStabilityPoolDepositorsActor } from "./stability_pool_depositors"
 
 import { createPriceOracleActor } from "./price_oracle";
 
+import { createTimeKeeperActor } from "./time_keeper";
+import { DEFAULT_TIME_JUMPS } from "../actions/timekeeper_advance_time";
 
-export function setupActors(config: any, addrs: HardhatEthersSigner[], contracts: Record<string, Contract>): Actor[] {
-   let idx = 0;
+import { createWhaleBorrowerActor } from "./whale_borrower";
+
+import { createNftTraderActor } from "./nft_trader";
+
+import { createTokenDistributorActor } from "./token_distributor";
+
+import { createAdminActor } from "./admin";
+
+import { BalanceOverrideSink } from "../invariants/eth_conservation";
+
+
+/**
+ * Creates the actors of the run, as many of each as config.actors asks for.
+ * @param balanceOverrides - Where actions that set balances outside transactions report them, usually the run's EthLedger.
+ */
+export function setupActors(config: any, addrs: HardhatEthersSigner[], contracts: Record<string, Contract>, balanceOverrides: BalanceOverrideSink): Actor[] {
+   // addrs[0] deployed the contracts and owns them; it is kept for the Admin actors, when there are any
+   let idx = config.actors.Admin > 0 ? 1 : 0;
    const actors: Actor[] = [];
 
    
@@ -89,5 +107,62 @@ export function setupActors(config: any, addrs: HardhatEthersSigner[], contracts
         actors.push(actor);
     }
    
+    for (let i = 0; i < config.actors.TimeKeeper; i++) {
+        const account: Account = {
+            address: addrs[idx].address,
+            type: "key",
+            value: addrs[idx]
+        };
+        idx++;
+        const actor = createTimeKeeperActor(account, contracts, config.timeKeeper?.jumps ?? DEFAULT_TIME_JUMPS);
+        actors.push(actor);
+    }
+   
+    for (let i = 0; i < config.actors.WhaleBorrower; i++) {
+        const account: Account = {
+            address: addrs[idx].address,
+            type: "key",
+            value: addrs[idx]
+        };
+        idx++;
+        const actor = createWhaleBorrowerActor(account, contracts, balanceOverrides, config.whaleBorrower);
+        actors.push(actor);
+    }
+   
+    for (let i = 0; i < config.actors.NftTrader; i++) {
+        const account: Account = {
+            address: addrs[idx].address,
+            type: "key",
+            value: addrs[idx]
+        };
+        idx++;
+        // Traders deal with every actor, including those created after them
+        const actor = createNftTraderActor(account, contracts, actors);
+        actors.push(actor);
+    }
+   
+    for (let i = 0; i < config.actors.TokenDistributor; i++) {
+        const account: Account = {
+            address: addrs[idx].address,
+            type: "key",
+            value: addrs[idx]
+        };
+        idx++;
+        // The distributor supplies actors created after it too
+        const actor = createTokenDistributorActor(account, contracts, actors);
+        actors.push(actor);
+    }
+   
+    for (let i = 0; i < config.actors.Admin; i++) {
+        // The admin holds the deployer signer, reserved above, rather than an account of its own
+        const account: Account = {
+            address: addrs[0].address,
+            type: "key",
+            value: addrs[0]
+        };
+        const actor = createAdminActor(account, contracts, actors);
+        actors.push(actor);
+    }
+   
    return actors;
 }
\ No newline at end of file
@@ -2,6 +2,8 @@ import { Action, Actor, Account } from "@svylabs/ilumina";
 import type { RunContext } from "@svylabs/ilumina";
 import { Snapshot } from "@svylabs/ilumina";
 import { Contract} from "ethers";
+import { withSnapshotDiff } from "../snapshots/diff";
+import { withReceiptBlock } from "../snapshots/block_context";
 
 
 import { LiquidateAction } from "../actions/stablebasecdp_liquidate";
@@ -14,10 +16,10 @@ export function createLiquidatorActor(account: Account, contracts: Record<string
     const actions: Action[] = [];
     let action;
     
-    action = new LiquidateAction(contracts.stableBaseCDP);
+    action = withSnapshotDiff(withReceiptBlock(new LiquidateAction(contracts.stableBaseCDP)));
     actions.push({action: action, probability: 0.9});
     
-    action = new LiquidateSafeAction(contracts.stableBaseCDP);
+    action = withSnapshotDiff(withReceiptBlock(new LiquidateSafeAction(contracts.stableBaseCDP)));
     actions.push({action: action, probability: 0.8});
     
     actor = new Actor(
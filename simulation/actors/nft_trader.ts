@@ -0,0 +1,45 @@
+import { Action, Actor, Account } from "@svylabs/ilumina";
+import type { RunContext } from "@svylabs/ilumina";
+import { Snapshot } from "@svylabs/ilumina";
+import { Contract} from "ethers";
+import { withSnapshotDiff } from "../snapshots/diff";
+import { withReceiptBlock } from "../snapshots/block_context";
+
+
+import { OpenSafeAction } from "../actions/stablebasecdp_opensafe";
+
+import { ApproveSafeAction } from "../actions/stablebasecdp_approve";
+
+import { SetApprovalForAllAction } from "../actions/stablebasecdp_setapprovalforall";
+
+import { TransferSafeAction } from "../actions/stablebasecdp_transfer_safe";
+
+
+/**
+ * An actor that opens safes and trades them as ERC-721 tokens with the other actors.
+ * @param actors - Every actor of the run, to trade with; it may still be filling when this is called.
+ */
+export function createNftTraderActor(account: Account, contracts: Record<string, Contract>, actors: Actor[]): Actor {
+    let actor;
+    const actions: Action[] = [];
+    let action;
+    
+    action = withSnapshotDiff(withReceiptBlock(new OpenSafeAction(contracts.stableBaseCDP)));
+    actions.push({action: action, probability: 0.3});
+    
+    action = withSnapshotDiff(withReceiptBlock(new ApproveSafeAction(contracts.stableBaseCDP, actors)));
+    actions.push({action: action, probability: 0.4});
+    
+    action = withSnapshotDiff(withReceiptBlock(new SetApprovalForAllAction(contracts.stableBaseCDP, actors)));
+    actions.push({action: action, probability: 0.3});
+    
+    action = withSnapshotDiff(withReceiptBlock(new TransferSafeAction(contracts.stableBaseCDP, actors)));
+    actions.push({action: action, probability: 0.6});
+    
+    actor = new Actor(
+        "NftTrader",
+        account,
+        actions,
+    );
+    return actor;
+}
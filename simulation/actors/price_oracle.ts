@@ -2,6 +2,8 @@ import { Action, Actor, Account } from "@svylabs/ilumina";
 import type { RunContext } from "@svylabs/ilumina";
 import { Snapshot } from "@svylabs/ilumina";
 import { Contract} from "ethers";
+import { withSnapshotDiff } from "../snapshots/diff";
+import { withReceiptBlock } from "../snapshots/block_context";
 
 
 import { SetPriceAction } from "../actions/mockpriceoracle_set_price";
@@ -12,7 +14,7 @@ export function createPriceOracleActor(account: Account, contracts: Record<strin
     const actions: Action[] = [];
     let action;
     
-    action = new SetPriceAction(contracts.mockPriceOracle);
+    action = withSnapshotDiff(withReceiptBlock(new SetPriceAction(contracts.mockPriceOracle)));
     actions.push({action: action, probability: 0.9});
     
     actor = new Actor(
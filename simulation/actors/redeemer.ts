@@ -2,6 +2,8 @@ import { Action, Actor, Account } from "@svylabs/ilumina";
 import type { RunContext } from "@svylabs/ilumina";
 import { Snapshot } from "@svylabs/ilumina";
 import { Contract} from "ethers";
+import { withSnapshotDiff } from "../snapshots/diff";
+import { withReceiptBlock } from "../snapshots/block_context";
 
 
 import { RedeemAction } from "../actions/stablebasecdp_redeem";
@@ -12,7 +14,7 @@ export function createRedeemerActor(account: Account, contracts: Record<string,
     const actions: Action[] = [];
     let action;
     
-    action = new RedeemAction(contracts.stableBaseCDP);
+    action = withSnapshotDiff(withReceiptBlock(new RedeemAction(contracts.stableBaseCDP)));
     actions.push({action: action, probability: 0.6});
     
     actor = new Actor(
@@ -2,6 +2,8 @@ import { Action, Actor, Account } from "@svylabs/ilumina";
 import type { RunContext } from "@svylabs/ilumina";
 import { Snapshot } from "@svylabs/ilumina";
 import { Contract} from "ethers";
+import { withSnapshotDiff } from "../snapshots/diff";
+import { withReceiptBlock } from "../snapshots/block_context";
 
 
 import { StakeAction } from "../actions/stabilitypool_stake";
@@ -16,13 +18,13 @@ export function createStabilityPoolDepositorsActor(account: Account, contracts:
     const actions: Action[] = [];
     let action;
     
-    action = new StakeAction(contracts.stabilityPool);
+    action = withSnapshotDiff(withReceiptBlock(new StakeAction(contracts.stabilityPool)));
     actions.push({action: action, probability: 0.7});
     
-    action = new UnstakeAction(contracts.stabilityPool);
+    action = withSnapshotDiff(withReceiptBlock(new UnstakeAction(contracts.stabilityPool)));
     actions.push({action: action, probability: 0.5});
     
-    action = new ClaimAction(contracts.stabilityPool);
+    action = withSnapshotDiff(withReceiptBlock(new ClaimAction(contracts.stabilityPool)));
     actions.push({action: action, probability: 0.6});
     
     actor = new Actor(
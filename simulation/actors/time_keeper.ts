@@ -0,0 +1,32 @@
+import { Action, Actor, Account } from "@svylabs/ilumina";
+import type { RunContext } from "@svylabs/ilumina";
+import { Snapshot } from "@svylabs/ilumina";
+import { Contract} from "ethers";
+import { withSnapshotDiff } from "../snapshots/diff";
+import { withReceiptBlock } from "../snapshots/block_context";
+
+
+import { AdvanceTimeAction, DEFAULT_TIME_JUMPS, TimeJumpRange } from "../actions/timekeeper_advance_time";
+
+
+/**
+ * An actor that only moves chain time forward, one action per range of jumps.
+ * @param jumps - The ranges to draw jumps from, with the probability of each; defaults to DEFAULT_TIME_JUMPS.
+ */
+export function createTimeKeeperActor(account: Account, contracts: Record<string, Contract>, jumps: TimeJumpRange[] = DEFAULT_TIME_JUMPS): Actor {
+    let actor;
+    const actions: Action[] = [];
+    let action;
+    
+    for (const range of jumps) {
+        action = withSnapshotDiff(withReceiptBlock(new AdvanceTimeAction(range)));
+        actions.push({action: action, probability: range.probability});
+    }
+    
+    actor = new Actor(
+        "TimeKeeper",
+        account,
+        actions,
+    );
+    return actor;
+}
@@ -0,0 +1,70 @@
+import { Action, Actor, Account } from "@svylabs/ilumina";
+import type { RunContext } from "@svylabs/ilumina";
+import { Snapshot } from "@svylabs/ilumina";
+import { Contract, ethers } from "ethers";
+import { withSnapshotDiff } from "../snapshots/diff";
+import { withReceiptBlock } from "../snapshots/block_context";
+
+
+import { OpenSafeAction } from "../actions/stablebasecdp_opensafe";
+
+import { WhaleBorrowAction } from "../actions/stablebasecdp_whale_borrow";
+
+import { StakeAction } from "../actions/stabilitypool_stake";
+
+import { ClaimAction } from "../actions/stabilitypool_claim";
+
+import { TransferTokenAction } from "../actions/erc20_transfer";
+
+import { ApproveTokenAction } from "../actions/erc20_approve";
+
+
+// The contract's minimum debt; anything the safe allows above it is drawn
+const MINIMUM_BORROW = ethers.parseEther("2000");
+
+/**
+ * A market maker that borrows DFID against its own safes and earns DFIRE as SBR rewards of its
+ * stability pool stake, then hands both out to the actors that spend them and approves the protocol
+ * contracts on their behalf: DFID for Redeemer (stableBaseCDP) and StabilityPoolDepositors (stabilityPool),
+ * DFIRE for DfireStakers (dfireStaking).
+ * @param actors - Every actor of the run, to supply; it may still be filling when this is called.
+ */
+export function createTokenDistributorActor(account: Account, contracts: Record<string, Contract>, actors: Actor[]): Actor {
+    let actor;
+    const actions: Action[] = [];
+    let action;
+    
+    action = withSnapshotDiff(withReceiptBlock(new OpenSafeAction(contracts.stableBaseCDP)));
+    actions.push({action: action, probability: 0.3});
+    
+    action = withSnapshotDiff(withReceiptBlock(new WhaleBorrowAction(contracts.stableBaseCDP, MINIMUM_BORROW, "DistributorBorrowAction")));
+    actions.push({action: action, probability: 0.6});
+    
+    action = withSnapshotDiff(withReceiptBlock(new TransferTokenAction("dfidToken", contracts.dfidToken, actors, ["Redeemer", "StabilityPoolDepositors"])));
+    actions.push({action: action, probability: 0.6});
+    
+    action = withSnapshotDiff(withReceiptBlock(new ApproveTokenAction("dfidToken", contracts.dfidToken, "stableBaseCDP", actors, ["Redeemer"])));
+    actions.push({action: action, probability: 0.4});
+    
+    action = withSnapshotDiff(withReceiptBlock(new ApproveTokenAction("dfidToken", contracts.dfidToken, "stabilityPool", actors, ["StabilityPoolDepositors", "TokenDistributor"])));
+    actions.push({action: action, probability: 0.4});
+    
+    action = withSnapshotDiff(withReceiptBlock(new StakeAction(contracts.stabilityPool)));
+    actions.push({action: action, probability: 0.3});
+    
+    action = withSnapshotDiff(withReceiptBlock(new ClaimAction(contracts.stabilityPool)));
+    actions.push({action: action, probability: 0.3});
+    
+    action = withSnapshotDiff(withReceiptBlock(new TransferTokenAction("dfireToken", contracts.dfireToken, actors, ["DfireStakers"])));
+    actions.push({action: action, probability: 0.5});
+    
+    action = withSnapshotDiff(withReceiptBlock(new ApproveTokenAction("dfireToken", contracts.dfireToken, "dfireStaking", actors, ["DfireStakers"])));
+    actions.push({action: action, probability: 0.4});
+    
+    actor = new Actor(
+        "TokenDistributor",
+        account,
+        actions,
+    );
+    return actor;
+}
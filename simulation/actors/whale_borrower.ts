@@ -0,0 +1,70 @@
+import { Action, Actor, Account } from "@svylabs/ilumina";
+import type { RunContext } from "@svylabs/ilumina";
+import { Snapshot } from "@svylabs/ilumina";
+import { Contract, ethers } from "ethers";
+import { withSnapshotDiff } from "../snapshots/diff";
+import { withReceiptBlock } from "../snapshots/block_context";
+
+
+import { FundWhaleAction } from "../actions/whaleborrower_fund";
+import { BalanceOverrideSink } from "../invariants/eth_conservation";
+
+import { OpenWhaleSafeAction } from "../actions/stablebasecdp_whale_open_safe";
+
+import { WhaleBorrowAction } from "../actions/stablebasecdp_whale_borrow";
+
+import { RepayAction } from "../actions/stablebasecdp_repay";
+
+import { CloseSafeAction } from "../actions/stablebasecdp_closesafe";
+
+
+/**
+ * Sizes of a whale's positions, in whole ETH and DFID.
+ */
+export interface WhaleBorrowerOptions {
+    /** The ETH balance hardhat_setBalance gives the whale. */
+    fundingEth: string;
+    /** The debt each safe's collateral is sized to back. */
+    targetDebt: string;
+    /** The smallest amount a borrow draws, when the safe allows it. */
+    minimumBorrow: string;
+}
+
+const DEFAULT_WHALE_OPTIONS: WhaleBorrowerOptions = {
+    fundingEth: "50000000",
+    targetDebt: "6000000",
+    minimumBorrow: "1000000",
+};
+
+/**
+ * An actor that funds itself far beyond a Hardhat account and builds multi-million DFID positions,
+ * which takes total debt past BOOTSTRAP_MODE_DEBT_THRESHOLD in ordinary seeds.
+ * @param overrides - Where the whale's funding is reported, usually the run's EthLedger.
+ */
+export function createWhaleBorrowerActor(account: Account, contracts: Record<string, Contract>, overrides: BalanceOverrideSink, options: WhaleBorrowerOptions = DEFAULT_WHALE_OPTIONS): Actor {
+    let actor;
+    const actions: Action[] = [];
+    let action;
+    
+    action = withSnapshotDiff(withReceiptBlock(new FundWhaleAction(ethers.parseEther(options.fundingEth), overrides)));
+    actions.push({action: action, probability: 1.0});
+    
+    action = withSnapshotDiff(withReceiptBlock(new OpenWhaleSafeAction(contracts.stableBaseCDP, ethers.parseEther(options.targetDebt))));
+    actions.push({action: action, probability: 0.5});
+    
+    action = withSnapshotDiff(withReceiptBlock(new WhaleBorrowAction(contracts.stableBaseCDP, ethers.parseEther(options.minimumBorrow))));
+    actions.push({action: action, probability: 0.9});
+    
+    action = withSnapshotDiff(withReceiptBlock(new RepayAction(contracts.stableBaseCDP)));
+    actions.push({action: action, probability: 0.3});
+    
+    action = withSnapshotDiff(withReceiptBlock(new CloseSafeAction(contracts.stableBaseCDP)));
+    actions.push({action: action, probability: 0.1});
+    
+    actor = new Actor(
+        "WhaleBorrower",
+        account,
+        actions,
+    );
+    return actor;
+}
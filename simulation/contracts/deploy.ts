@@ -47,6 +47,11 @@ async function deployContracts(): Promise<{
   const mockPriceOracle = await MockPriceOracle.deploy();
   await mockPriceOracle.waitForDeployment();
 
+  // Aggregator used by the snapshot provider to batch view calls
+  const Multicall3 = await ethers.getContractFactory("Multicall3");
+  const multicall = await Multicall3.deploy();
+  await multicall.waitForDeployment();
+
   // Set Addresses
   let tx = await dfidToken.setAddresses(stableBaseCDP.target);
   await tx.wait();
@@ -86,6 +91,7 @@ async function deployContracts(): Promise<{
     safesOrderedForLiquidation,
     safesOrderedForRedemption,
     mockPriceOracle,
+    multicall,
   };
 }
 
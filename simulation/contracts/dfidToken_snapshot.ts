@@ -1,3 +1,132 @@
 // Generated by SnapshotCodeGenerator
 
-import { ethers } from "ethers";import { Actor } from "@svylabs/ilumina";import { DFIDTokenContractSnapshot } from "./snapshot_interfaces";/** * Takes a snapshot of DFIDToken contract state. * @param contract - ethers.Contract instance for the DFIDToken contract. * @param actors - An array of Actor instances, each representing a user whose account-specific data needs to be snapshotted. * @returns Promise returning the DFIDTokenContractSnapshot. */export async function takedfidTokenContractSnapshot(contract: ethers.Contract, actors: Actor[]): Promise<DFIDTokenContractSnapshot> {  const snapshot: DFIDTokenContractSnapshot = {    accountBalances: {},    accountAllowances: {},    tokenName: "",    tokenSymbol: "",    tokenDecimals: 0n,    tokenTotalSupply: 0n,    contractOwner: "",    totalTokensBurned: 0n,  };  const uniqueAccountAddresses = Array.from(new Set(actors.map(actor => actor.getIdentifiers().accountAddress as string)));  for (const accountAddress of uniqueAccountAddresses) {    if (!ethers.utils.isAddress(accountAddress)) {      console.warn(`Invalid accountAddress encountered for balanceOf: ${accountAddress}. Skipping.`);      continue;    }    try {      const balance = await contract.balanceOf(accountAddress);      snapshot.accountBalances[accountAddress] = balance.toBigInt();    } catch (error: any) {      console.error(`Error fetching balance for ${accountAddress}: ${error.message}`);      snapshot.accountBalances[accountAddress] = 0n;    }  }  for (const ownerAddress of uniqueAccountAddresses) {    if (!ethers.utils.isAddress(ownerAddress)) {      console.warn(`Invalid ownerAddress encountered for allowance: ${ownerAddress}. Skipping.`);      continue;    }    snapshot.accountAllowances[ownerAddress] = {};    for (const spenderAddress of uniqueAccountAddresses) {      if (!ethers.utils.isAddress(spenderAddress)) {        console.warn(`Invalid spenderAddress encountered for allowance: ${spenderAddress}. Skipping.`);        continue;      }      try {        const allowance = await contract.allowance(ownerAddress, spenderAddress);        snapshot.accountAllowances[ownerAddress][spenderAddress] = allowance.toBigInt();      } catch (error: any) {        console.error(`Error fetching allowance for owner ${ownerAddress} and spender ${spenderAddress}: ${error.message}`);        snapshot.accountAllowances[ownerAddress][spenderAddress] = 0n;      }    }  }  try {    snapshot.tokenName = await contract.name();  } catch (error: any) {    console.error(`Error fetching tokenName: ${error.message}`);    snapshot.tokenName = "Unknown";  }  try {    snapshot.tokenSymbol = await contract.symbol();  } catch (error: any) {    console.error(`Error fetching tokenSymbol: ${error.message}`);    snapshot.tokenSymbol = "UNKNOWN";  }  try {    const decimals = await contract.decimals();    snapshot.tokenDecimals = decimals.toBigInt();  } catch (error: any) {    console.error(`Error fetching tokenDecimals: ${error.message}`);    snapshot.tokenDecimals = 0n;  }  try {    const totalSupply = await contract.totalSupply();    snapshot.tokenTotalSupply = totalSupply.toBigInt();  } catch (error: any) {    console.error(`Error fetching tokenTotalSupply: ${error.message}`);    snapshot.tokenTotalSupply = 0n;  }  try {    snapshot.contractOwner = await contract.owner();  } catch (error: any) {    console.error(`Error fetching contractOwner: ${error.message}`);    snapshot.contractOwner = ethers.constants.AddressZero;  }  try {    const totalBurned = await contract.totalBurned();    snapshot.totalTokensBurned = totalBurned.toBigInt();  } catch (error: any) {    console.error(`Error fetching totalTokensBurned: ${error.message}`);    snapshot.totalTokensBurned = 0n;  }  return snapshot;}
\ No newline at end of file
+import { ethers } from "ethers";
+import { Actor } from "@svylabs/ilumina";
+import { DFIDTokenContractSnapshot } from "./snapshot_interfaces";
+import { decodedBigInt } from "./multicall_batcher";
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Takes a snapshot of DFIDToken contract state.
+ * All reads are issued before any of them is awaited so a batching contract wrapper can combine them.
+ * @param contract - ethers.Contract instance for the DFIDToken contract.
+ * @param actors - An array of Actor instances, each representing a user whose account-specific data needs to be snapshotted.
+ * @param contracts - The deployed contracts, snapshotted as holders and spenders alongside the actors.
+ * @returns Promise returning the DFIDTokenContractSnapshot.
+ */
+export async function takedfidTokenContractSnapshot(
+  contract: ethers.Contract,
+  actors: Actor[],
+  contracts: Record<string, ethers.Contract> = {}
+): Promise<DFIDTokenContractSnapshot> {
+  const snapshot: DFIDTokenContractSnapshot = {
+    accountBalances: {},
+    accountAllowances: {},
+    tokenName: "",
+    tokenSymbol: "",
+    tokenDecimals: 0n,
+    tokenTotalSupply: 0n,
+    contractOwner: "",
+    totalTokensBurned: 0n,
+  };
+  // Protocol contracts hold fees and pull tokens with transferFrom, so they are both holders and spenders
+  const uniqueAccountAddresses = Array.from(new Set([
+    ...actors.map(actor => actor.getIdentifiers().accountAddress as string),
+    ...Object.values(contracts).map(protocolContract => protocolContract.target as string),
+  ]));
+  const validAddresses = uniqueAccountAddresses.filter(address => ethers.isAddress(address));
+
+  const balanceReads = new Map<string, Promise<unknown>>();
+  const allowanceReads = new Map<string, Map<string, Promise<unknown>>>();
+  for (const ownerAddress of validAddresses) {
+    balanceReads.set(ownerAddress, contract.balanceOf(ownerAddress));
+    const spenderReads = new Map<string, Promise<unknown>>();
+    for (const spenderAddress of validAddresses) {
+      spenderReads.set(spenderAddress, contract.allowance(ownerAddress, spenderAddress));
+    }
+    allowanceReads.set(ownerAddress, spenderReads);
+  }
+  const nameRead = contract.name();
+  const symbolRead = contract.symbol();
+  const decimalsRead = contract.decimals();
+  const totalSupplyRead = contract.totalSupply();
+  const ownerRead = contract.owner();
+  const totalBurnedRead = contract.totalBurned();
+
+  for (const accountAddress of uniqueAccountAddresses) {
+    if (!ethers.isAddress(accountAddress)) {
+      console.warn(`Invalid accountAddress encountered for balanceOf: ${accountAddress}. Skipping.`);
+      continue;
+    }
+    try {
+      const balance = await balanceReads.get(accountAddress);
+      snapshot.accountBalances[accountAddress] = decodedBigInt(balance);
+    } catch (error) {
+      console.error(`Error fetching balance for ${accountAddress}: ${errorMessage(error)}`);
+      snapshot.accountBalances[accountAddress] = 0n;
+    }
+  }
+  for (const ownerAddress of uniqueAccountAddresses) {
+    if (!ethers.isAddress(ownerAddress)) {
+      console.warn(`Invalid ownerAddress encountered for allowance: ${ownerAddress}. Skipping.`);
+      continue;
+    }
+    snapshot.accountAllowances[ownerAddress] = {};
+    for (const spenderAddress of uniqueAccountAddresses) {
+      if (!ethers.isAddress(spenderAddress)) {
+        console.warn(`Invalid spenderAddress encountered for allowance: ${spenderAddress}. Skipping.`);
+        continue;
+      }
+      try {
+        const allowance = await allowanceReads.get(ownerAddress)!.get(spenderAddress);
+        snapshot.accountAllowances[ownerAddress][spenderAddress] = decodedBigInt(allowance);
+      } catch (error) {
+        console.error(`Error fetching allowance for owner ${ownerAddress} and spender ${spenderAddress}: ${errorMessage(error)}`);
+        snapshot.accountAllowances[ownerAddress][spenderAddress] = 0n;
+      }
+    }
+  }
+  try {
+    snapshot.tokenName = await nameRead;
+  } catch (error) {
+    console.error(`Error fetching tokenName: ${errorMessage(error)}`);
+    snapshot.tokenName = "Unknown";
+  }
+  try {
+    snapshot.tokenSymbol = await symbolRead;
+  } catch (error) {
+    console.error(`Error fetching tokenSymbol: ${errorMessage(error)}`);
+    snapshot.tokenSymbol = "UNKNOWN";
+  }
+  try {
+    const decimals = await decimalsRead;
+    snapshot.tokenDecimals = decodedBigInt(decimals);
+  } catch (error) {
+    console.error(`Error fetching tokenDecimals: ${errorMessage(error)}`);
+    snapshot.tokenDecimals = 0n;
+  }
+  try {
+    const totalSupply = await totalSupplyRead;
+    snapshot.tokenTotalSupply = decodedBigInt(totalSupply);
+  } catch (error) {
+    console.error(`Error fetching tokenTotalSupply: ${errorMessage(error)}`);
+    snapshot.tokenTotalSupply = 0n;
+  }
+  try {
+    snapshot.contractOwner = await ownerRead;
+  } catch (error) {
+    console.error(`Error fetching contractOwner: ${errorMessage(error)}`);
+    snapshot.contractOwner = ethers.ZeroAddress;
+  }
+  try {
+    const totalBurned = await totalBurnedRead;
+    snapshot.totalTokensBurned = decodedBigInt(totalBurned);
+  } catch (error) {
+    console.error(`Error fetching totalTokensBurned: ${errorMessage(error)}`);
+    snapshot.totalTokensBurned = 0n;
+  }
+  return snapshot;
+}
@@ -9,23 +9,27 @@ import { DFIRETokenAccountSnapshot, DFIRETokenSnapshot } from "./snapshot_interf
  * Takes a snapshot of DFIREToken contract state.
  * @param contract - ethers.Contract instance of the DFIREToken contract.
  * @param actors - An array of Actor objects, each potentially containing an accountAddress.
+ * @param contracts - The deployed contracts, whose addresses are snapshotted as holders and spenders too.
  * @returns A Promise that resolves to a DFIRETokenSnapshot object.
  * @throws An error if any contract call fails.
  */
 export async function takedfireTokenContractSnapshot(
   contract: ethers.Contract,
-  actors: Actor[]
+  actors: Actor[],
+  contracts: Record<string, ethers.Contract> = {}
 ): Promise<DFIRETokenSnapshot> {
   try {
     // 1. Fetch Global Contract State
-    const decimals = await contract.decimals();
-    const tokenName = await contract.name();
-    const contractOwner = await contract.owner();
-    const tokenSymbol = await contract.symbol();
-    const totalBurnedSupply = await contract.totalBurned();
-    const totalTokenSupply = await contract.totalSupply();
+    const [decimals, tokenName, contractOwner, tokenSymbol, totalBurnedSupply, totalTokenSupply] = await Promise.all([
+      contract.decimals(),
+      contract.name(),
+      contract.owner(),
+      contract.symbol(),
+      contract.totalBurned(),
+      contract.totalSupply(),
+    ]);
 
-    // 2. Collect all unique account addresses from actors
+    // 2. Collect all unique account addresses from actors and the deployed protocol contracts
     const uniqueAccountAddresses = new Set<string>();
     for (const actor of actors) {
       const identifiers = actor.getIdentifiers();
@@ -34,9 +38,24 @@ export async function takedfireTokenContractSnapshot(
         uniqueAccountAddresses.add(identifiers.accountAddress as string);
       }
     }
+    for (const protocolContract of Object.values(contracts)) {
+      uniqueAccountAddresses.add(protocolContract.target as string);
+    }
     const accountAddresses = Array.from(uniqueAccountAddresses);
 
     // 3. Fetch per-account state (balances and allowances)
+    // Issue every read up front so a batching contract wrapper can combine them.
+    const balanceReads = new Map<string, Promise<any>>();
+    const allowanceReads = new Map<string, Map<string, Promise<any>>>();
+    for (const ownerAddress of accountAddresses) {
+      balanceReads.set(ownerAddress, contract.balanceOf(ownerAddress));
+      const spenderReads = new Map<string, Promise<any>>();
+      for (const spenderAddress of accountAddresses) {
+        spenderReads.set(spenderAddress, contract.allowance(ownerAddress, spenderAddress));
+      }
+      allowanceReads.set(ownerAddress, spenderReads);
+    }
+
     const accounts: Record<string, DFIRETokenAccountSnapshot> = {};
 
     for (const ownerAddress of accountAddresses) {
@@ -47,7 +66,7 @@ export async function takedfireTokenContractSnapshot(
 
       // Fetch balance for the current ownerAddress
       try {
-        accountSnapshot.balance = await contract.balanceOf(ownerAddress);
+        accountSnapshot.balance = await balanceReads.get(ownerAddress);
       } catch (balanceErr: any) {
         console.warn(`DFIREToken Snapshot: Failed to fetch balance for ${ownerAddress}: ${balanceErr.message || balanceErr}`);
         // On error, default to 0n for robustness in snapshotting
@@ -57,7 +76,7 @@ export async function takedfireTokenContractSnapshot(
       // Fetch allowances for all other accountAddresses as spenders
       for (const spenderAddress of accountAddresses) {
         try {
-          const allowanceValue = await contract.allowance(ownerAddress, spenderAddress);
+          const allowanceValue = await allowanceReads.get(ownerAddress)!.get(spenderAddress);
           accountSnapshot.allowances[spenderAddress] = allowanceValue;
         } catch (allowanceErr: any) {
           console.warn(`DFIREToken Snapshot: Failed to fetch allowance for owner ${ownerAddress} to spender ${spenderAddress}: ${allowanceErr.message || allowanceErr}`);
@@ -0,0 +1,501 @@
+import { ethers } from "ethers";
+import { Actor } from "@svylabs/ilumina";
+import {
+    DFIDTokenContractSnapshot,
+    DFIRETokenAccountSnapshot,
+    DFIRETokenSnapshot,
+    IDFIREStakingSnapshot,
+    OrderedDoublyLinkedListSnapshot,
+    StabilityPoolSnapshot,
+    StableBaseCDPSnapshot,
+} from "./snapshot_interfaces";
+import { collectActorSafeIds } from "./safe_discovery";
+import { dfireStakingAccountAddresses, takedfireStakingContractSnapshot } from "./dfireStaking_snapshot";
+import { takestabilityPoolContractSnapshot } from "./stabilityPool_snapshot";
+import { takestableBaseCDPContractSnapshot } from "./stableBaseCDP_snapshot";
+
+/**
+ * What a set of logs says was touched, as found by collectTouchedEntities.
+ */
+export interface TouchedEntities {
+    /** Keys of the deployed contracts that emitted at least one log. */
+    contracts: Set<string>;
+    /** Every address argument of a decoded event, lowercased. */
+    accounts: Set<string>;
+    /** Safe IDs named in StableBaseCDP or ordered list events. */
+    safeIds: Set<bigint>;
+    /** Safes minted by the logs. */
+    openedSafeIds: Set<bigint>;
+    /** Safes burned by the logs. */
+    burnedSafeIds: Set<bigint>;
+}
+
+const SAFE_ID_ARGUMENTS = new Set(["safeId", "tokenId", "id"]);
+const SAFE_CONTRACTS = new Set(["stableBaseCDP", "safesOrderedForLiquidation", "safesOrderedForRedemption"]);
+// The StabilityPool views every depositor's pending rewards are computed from
+const STABILITY_POOL_ACCUMULATORS = [
+    "totalRewardPerToken",
+    "totalCollateralPerToken",
+    "totalSbrRewardPerToken",
+    "stakeScalingFactor",
+    "stakeResetCount",
+    "sbrRewardDistributionStatus",
+] as const;
+const STABILITY_POOL_RECORDS = [
+    "users",
+    "sbrRewardSnapshots",
+    "userPendingCollateral",
+    "userPendingReward",
+    "userPendingRewardAndCollateral",
+] as const;
+const SAFE_RECORDS = [
+    "safeApprovedAddress",
+    "inactiveDebtAndCollateral",
+    "safeOwner",
+    "safeDetails",
+    "safeTokenURI",
+    "liquidationSnapshots",
+    "pendingRedistribution",
+] as const;
+
+/**
+ * Decodes logs with the ABIs of the deployed contracts and collects the entities they touch.
+ * Logs from addresses that are not deployed contracts, and logs no ABI can decode, are skipped.
+ * @param logs - The logs of one or more transaction receipts.
+ * @param contracts - The deployed contracts, keyed as in ContractSnapshot.
+ * @returns The touched contracts, accounts and safes.
+ */
+export function collectTouchedEntities(logs: readonly ethers.Log[], contracts: Record<string, ethers.Contract>): TouchedEntities {
+    const touched: TouchedEntities = {
+        contracts: new Set(),
+        accounts: new Set(),
+        safeIds: new Set(),
+        openedSafeIds: new Set(),
+        burnedSafeIds: new Set(),
+    };
+    const keysByAddress = new Map<string, string>();
+    for (const [key, contract] of Object.entries(contracts)) {
+        keysByAddress.set(contract.target.toString().toLowerCase(), key);
+    }
+
+    for (const log of logs) {
+        const key = keysByAddress.get(log.address.toLowerCase());
+        if (!key) {
+            continue;
+        }
+        touched.contracts.add(key);
+
+        let parsed: ethers.LogDescription | null = null;
+        try {
+            parsed = contracts[key].interface.parseLog({ topics: [...log.topics], data: log.data });
+        } catch (error) {
+            console.warn(`Could not decode log ${log.index} of ${key} in block ${log.blockNumber}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        if (!parsed) {
+            continue;
+        }
+
+        parsed.fragment.inputs.forEach((input, i) => {
+            const value = parsed!.args[i];
+            if (input.type === "address") {
+                touched.accounts.add(String(value).toLowerCase());
+            } else if (SAFE_CONTRACTS.has(key) && SAFE_ID_ARGUMENTS.has(input.name)) {
+                touched.safeIds.add(BigInt(value));
+            }
+        });
+
+        if (key === "stableBaseCDP" && parsed.name === "OpenSafe") {
+            touched.openedSafeIds.add(BigInt(parsed.args.safeId));
+        }
+        if (key === "stableBaseCDP" && parsed.name === "Transfer") {
+            if (parsed.args.to === ethers.ZeroAddress) {
+                touched.burnedSafeIds.add(BigInt(parsed.args.tokenId));
+            } else if (parsed.args.from === ethers.ZeroAddress) {
+                touched.openedSafeIds.add(BigInt(parsed.args.tokenId));
+            }
+        }
+    }
+    return touched;
+}
+
+// The same holders and spenders as the full token snapshots: actor accounts and every deployed contract
+function tokenHolderAddresses(actors: Actor[], contracts: Record<string, ethers.Contract>): string[] {
+    return Array.from(new Set([
+        ...actors.map(actor => actor.getIdentifiers().accountAddress as string).filter(Boolean),
+        ...Object.values(contracts).map(contract => contract.target as string),
+    ]));
+}
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Re-reads DFIDToken balances and allowances of touched accounts and of accounts not seen before.
+ * An allowance is re-read when either its owner or its spender was touched.
+ */
+export async function refreshDfidToken(
+    contract: ethers.Contract,
+    previous: DFIDTokenContractSnapshot,
+    actors: Actor[],
+    contracts: Record<string, ethers.Contract>,
+    touched: TouchedEntities
+): Promise<DFIDTokenContractSnapshot> {
+    const contractTouched = touched.contracts.has("dfidToken");
+    const isStale = (address: string) => !(address in previous.accountBalances) || (contractTouched && touched.accounts.has(address.toLowerCase()));
+    const addresses = tokenHolderAddresses(actors, contracts).filter(address => ethers.isAddress(address));
+    const snapshot: DFIDTokenContractSnapshot = { ...previous, accountBalances: {}, accountAllowances: {} };
+
+    const totalSupplyRead = contractTouched ? contract.totalSupply() : undefined;
+    const totalBurnedRead = contractTouched ? contract.totalBurned() : undefined;
+    const ownerRead = contractTouched ? contract.owner() : undefined;
+    const balanceReads = new Map<string, Promise<any>>();
+    const allowanceReads = new Map<string, Promise<any>>();
+    for (const ownerAddress of addresses) {
+        if (isStale(ownerAddress)) {
+            balanceReads.set(ownerAddress, contract.balanceOf(ownerAddress));
+        }
+        for (const spenderAddress of addresses) {
+            if (isStale(ownerAddress) || isStale(spenderAddress)) {
+                allowanceReads.set(`${ownerAddress}:${spenderAddress}`, contract.allowance(ownerAddress, spenderAddress));
+            }
+        }
+    }
+
+    if (contractTouched) {
+        try {
+            snapshot.tokenTotalSupply = BigInt(await totalSupplyRead);
+        } catch (error) {
+            console.error(`Error fetching tokenTotalSupply: ${errorMessage(error)}`);
+            snapshot.tokenTotalSupply = 0n;
+        }
+        try {
+            snapshot.totalTokensBurned = BigInt(await totalBurnedRead);
+        } catch (error) {
+            console.error(`Error fetching totalTokensBurned: ${errorMessage(error)}`);
+            snapshot.totalTokensBurned = 0n;
+        }
+        try {
+            snapshot.contractOwner = await ownerRead;
+        } catch (error) {
+            console.error(`Error fetching contractOwner: ${errorMessage(error)}`);
+            snapshot.contractOwner = ethers.ZeroAddress;
+        }
+    }
+    for (const ownerAddress of addresses) {
+        const balanceRead = balanceReads.get(ownerAddress);
+        if (!balanceRead) {
+            snapshot.accountBalances[ownerAddress] = previous.accountBalances[ownerAddress];
+        } else {
+            try {
+                snapshot.accountBalances[ownerAddress] = BigInt(await balanceRead);
+            } catch (error) {
+                console.error(`Error fetching balance for ${ownerAddress}: ${errorMessage(error)}`);
+                snapshot.accountBalances[ownerAddress] = 0n;
+            }
+        }
+        snapshot.accountAllowances[ownerAddress] = {};
+        for (const spenderAddress of addresses) {
+            const allowanceRead = allowanceReads.get(`${ownerAddress}:${spenderAddress}`);
+            if (!allowanceRead) {
+                snapshot.accountAllowances[ownerAddress][spenderAddress] = previous.accountAllowances[ownerAddress][spenderAddress];
+                continue;
+            }
+            try {
+                snapshot.accountAllowances[ownerAddress][spenderAddress] = BigInt(await allowanceRead);
+            } catch (error) {
+                console.error(`Error fetching allowance for owner ${ownerAddress} and spender ${spenderAddress}: ${errorMessage(error)}`);
+                snapshot.accountAllowances[ownerAddress][spenderAddress] = 0n;
+            }
+        }
+    }
+    return snapshot;
+}
+
+/**
+ * Re-reads DFIREToken accounts the same way refreshDfidToken does for DFIDToken.
+ */
+export async function refreshDfireToken(
+    contract: ethers.Contract,
+    previous: DFIRETokenSnapshot,
+    actors: Actor[],
+    contracts: Record<string, ethers.Contract>,
+    touched: TouchedEntities
+): Promise<DFIRETokenSnapshot> {
+    const contractTouched = touched.contracts.has("dfireToken");
+    const isStale = (address: string) => !(address in previous.accounts) || (contractTouched && touched.accounts.has(address.toLowerCase()));
+    const addresses = tokenHolderAddresses(actors, contracts);
+    const snapshot: DFIRETokenSnapshot = { ...previous, accounts: {} };
+
+    const globalReads = contractTouched
+        ? Promise.all([contract.owner(), contract.totalBurned(), contract.totalSupply()])
+        : undefined;
+    const balanceReads = new Map<string, Promise<any>>();
+    const allowanceReads = new Map<string, Promise<any>>();
+    for (const ownerAddress of addresses) {
+        if (isStale(ownerAddress)) {
+            balanceReads.set(ownerAddress, contract.balanceOf(ownerAddress));
+        }
+        for (const spenderAddress of addresses) {
+            if (isStale(ownerAddress) || isStale(spenderAddress)) {
+                allowanceReads.set(`${ownerAddress}:${spenderAddress}`, contract.allowance(ownerAddress, spenderAddress));
+            }
+        }
+    }
+
+    if (globalReads) {
+        try {
+            const [contractOwner, totalBurnedSupply, totalTokenSupply] = await globalReads;
+            snapshot.contractOwner = contractOwner;
+            snapshot.totalBurnedSupply = totalBurnedSupply;
+            snapshot.totalTokenSupply = totalTokenSupply;
+        } catch (error) {
+            const message = `Failed to take DFIREToken contract snapshot: ${errorMessage(error)}`;
+            console.error(message);
+            throw new Error(message);
+        }
+    }
+    for (const ownerAddress of addresses) {
+        const previousAccount = previous.accounts[ownerAddress];
+        const account: DFIRETokenAccountSnapshot = { balance: previousAccount?.balance ?? 0n, allowances: {} };
+        const balanceRead = balanceReads.get(ownerAddress);
+        if (balanceRead) {
+            try {
+                account.balance = await balanceRead;
+            } catch (error) {
+                console.warn(`DFIREToken Snapshot: Failed to fetch balance for ${ownerAddress}: ${errorMessage(error)}`);
+                account.balance = 0n;
+            }
+        }
+        for (const spenderAddress of addresses) {
+            const allowanceRead = allowanceReads.get(`${ownerAddress}:${spenderAddress}`);
+            if (!allowanceRead) {
+                account.allowances[spenderAddress] = previousAccount.allowances[spenderAddress];
+                continue;
+            }
+            try {
+                account.allowances[spenderAddress] = await allowanceRead;
+            } catch (error) {
+                console.warn(`DFIREToken Snapshot: Failed to fetch allowance for owner ${ownerAddress} to spender ${spenderAddress}: ${errorMessage(error)}`);
+                account.allowances[spenderAddress] = 0n;
+            }
+        }
+        snapshot.accounts[ownerAddress] = account;
+    }
+    return snapshot;
+}
+
+/**
+ * Re-reads the DFIREStaking globals, and the stake and pending rewards of touched accounts and of accounts
+ * not seen before. Pending rewards follow totalRewardPerToken and totalCollateralPerToken, which move when
+ * StableBaseCDP adds rewards, so every account is re-read when either of them changed.
+ */
+export async function refreshDfireStaking(
+    contract: ethers.Contract,
+    previous: IDFIREStakingSnapshot,
+    actors: Actor[],
+    contracts: Record<string, ethers.Contract>,
+    touched: TouchedEntities
+): Promise<IDFIREStakingSnapshot> {
+    const addresses = dfireStakingAccountAddresses(actors, contracts);
+    const staleAddresses = addresses.filter(address => !(address in previous.stakes) || touched.accounts.has(address.toLowerCase()));
+
+    let refreshed = await takedfireStakingContractSnapshot(contract, actors, contracts, staleAddresses);
+    if (refreshed.totalRewardPerToken !== previous.totalRewardPerToken ||
+        refreshed.totalCollateralPerToken !== previous.totalCollateralPerToken) {
+        refreshed = await takedfireStakingContractSnapshot(contract, actors, contracts, addresses);
+    }
+
+    const snapshot: IDFIREStakingSnapshot = { ...refreshed, stakes: {}, userPendingRewards: {} };
+    for (const address of addresses) {
+        const source = address in refreshed.stakes ? refreshed : previous;
+        snapshot.stakes[address] = source.stakes[address];
+        snapshot.userPendingRewards[address] = source.userPendingRewards[address];
+    }
+    return snapshot;
+}
+
+/**
+ * Re-reads the StabilityPool globals, stake reset snapshots included, and the records of touched depositors
+ * and of depositors not seen before. Pending rewards follow the per-token totals and the stake scaling,
+ * which liquidations and reward distributions move, so every depositor is re-read when one of them changed.
+ */
+export async function refreshStabilityPool(
+    contract: ethers.Contract,
+    previous: StabilityPoolSnapshot,
+    actors: Actor[],
+    touched: TouchedEntities
+): Promise<StabilityPoolSnapshot> {
+    const depositorOf = (actor: Actor) => actor.getIdentifiers().accountAddress as string | undefined;
+    const staleActors = actors.filter(actor => {
+        const address = depositorOf(actor);
+        return address !== undefined && (!(address in previous.users) || touched.accounts.has(address.toLowerCase()));
+    });
+
+    let refreshed = await takestabilityPoolContractSnapshot(contract, staleActors);
+    if (STABILITY_POOL_ACCUMULATORS.some(field => refreshed[field] !== previous[field])) {
+        refreshed = await takestabilityPoolContractSnapshot(contract, actors);
+    }
+
+    const snapshot: StabilityPoolSnapshot = { ...refreshed };
+    for (const field of STABILITY_POOL_RECORDS) {
+        snapshot[field] = {};
+    }
+    for (const actor of actors) {
+        const address = depositorOf(actor);
+        if (address === undefined) {
+            continue;
+        }
+        const source = address in refreshed.users ? refreshed : previous;
+        for (const field of STABILITY_POOL_RECORDS) {
+            (snapshot[field] as Record<string, unknown>)[address] = source[field][address];
+        }
+    }
+    return snapshot;
+}
+
+/**
+ * Re-reads the safes StableBaseCDP events touched and merges them into the previous snapshot.
+ * A change in either cumulative per-collateral value means a redistribution, which moves the
+ * inactive debt, collateral and pending redistribution of every safe, so all known safes are re-read in that case.
+ */
+export async function refreshStableBaseCDP(
+    contract: ethers.Contract,
+    previous: StableBaseCDPSnapshot,
+    actors: Actor[],
+    contracts: Record<string, ethers.Contract>,
+    touched: TouchedEntities
+): Promise<StableBaseCDPSnapshot> {
+    if (!touched.contracts.has("stableBaseCDP")) {
+        return previous;
+    }
+    const safeDiscovery: StableBaseCDPSnapshot["safeDiscovery"] = {};
+    for (const [key, sources] of Object.entries(previous.safeDiscovery)) {
+        if (!touched.burnedSafeIds.has(BigInt(key))) {
+            safeDiscovery[key] = sources;
+        }
+    }
+    for (const safeId of touched.openedSafeIds) {
+        if (!touched.burnedSafeIds.has(safeId) && !safeDiscovery[safeId.toString()]) {
+            safeDiscovery[safeId.toString()] = ["events"];
+        }
+    }
+    const liveSafeIds = Object.keys(safeDiscovery).map(key => BigInt(key));
+    let staleSafeIds = liveSafeIds.filter(safeId => touched.safeIds.has(safeId) || touched.openedSafeIds.has(safeId));
+
+    let refreshed = await takestableBaseCDPContractSnapshot(contract, actors, contracts, staleSafeIds);
+    if (refreshed.cumulativeCollateralPerUnitCollateral !== previous.cumulativeCollateralPerUnitCollateral ||
+        refreshed.cumulativeDebtPerUnitCollateral !== previous.cumulativeDebtPerUnitCollateral) {
+        staleSafeIds = liveSafeIds;
+        refreshed = await takestableBaseCDPContractSnapshot(contract, actors, contracts, staleSafeIds);
+    }
+
+    const snapshot: StableBaseCDPSnapshot = { ...refreshed, safeDiscovery };
+    const stale = new Set(staleSafeIds.map(safeId => safeId.toString()));
+    for (const field of SAFE_RECORDS) {
+        const merged: Record<string, any> = {};
+        for (const [key, value] of Object.entries(previous[field])) {
+            if (key in safeDiscovery && !stale.has(key)) {
+                merged[key] = value;
+            }
+        }
+        Object.assign(merged, refreshed[field]);
+        snapshot[field] = merged;
+    }
+    return snapshot;
+}
+
+/**
+ * Re-reads the ordered list nodes that may have moved: those of actor safes and every node on the list.
+ * A node changes when its safe was touched or when a touched safe was, or has become,
+ * its neighbour; the new neighbours are only known once the touched nodes are read.
+ * Nodes that have left the list are dropped unless an actor tracks their safe, as in a full snapshot.
+ */
+export async function refreshOrderedList(
+    contract: ethers.Contract,
+    listKey: string,
+    previous: OrderedDoublyLinkedListSnapshot,
+    actors: Actor[],
+    touched: TouchedEntities
+): Promise<OrderedDoublyLinkedListSnapshot> {
+    const trackedIds = collectActorSafeIds(actors);
+    const listTouched = touched.contracts.has(listKey) || touched.safeIds.size > 0;
+    const isAffected = (safeId: bigint) => {
+        const node = previous.nodes[safeId.toString()];
+        if (!node) {
+            return true;
+        }
+        return listTouched && (touched.safeIds.has(safeId) || touched.safeIds.has(node.prev) || touched.safeIds.has(node.next));
+    };
+    const snapshot: OrderedDoublyLinkedListSnapshot = { ...previous, nodes: {} };
+    const knownIds = new Set([...trackedIds, ...Object.keys(previous.nodes).map(BigInt)]);
+
+    const headRead = listTouched ? contract.getHead() : undefined;
+    const tailRead = listTouched ? contract.getTail() : undefined;
+    const nodeReads = new Map<bigint, Promise<any>>();
+    for (const safeId of knownIds) {
+        if (isAffected(safeId)) {
+            nodeReads.set(safeId, contract.nodes(safeId));
+        }
+    }
+    if (listTouched) {
+        for (const safeId of touched.safeIds) {
+            if (!nodeReads.has(safeId)) {
+                nodeReads.set(safeId, contract.nodes(safeId));
+            }
+        }
+    }
+
+    if (listTouched) {
+        try {
+            snapshot.headId = BigInt(await headRead);
+            snapshot.tailId = BigInt(await tailRead);
+        } catch (error) {
+            throw new Error(`Failed to fetch head and tail of ${listKey}: ${errorMessage(error)}`);
+        }
+    }
+
+    const newNeighbours = new Set<bigint>();
+    const nodes = new Map<bigint, any>();
+    for (const [safeId, read] of nodeReads) {
+        try {
+            const node = await read;
+            nodes.set(safeId, node);
+            if (touched.safeIds.has(safeId)) {
+                newNeighbours.add(BigInt(node.prev));
+                newNeighbours.add(BigInt(node.next));
+            }
+        } catch (error) {
+            console.error(`Failed to fetch node data for safeId ${safeId.toString()}: ${errorMessage(error)}`);
+        }
+    }
+    newNeighbours.delete(0n);
+    const neighbourReads = new Map<bigint, Promise<any>>();
+    for (const safeId of newNeighbours) {
+        if (!nodeReads.has(safeId)) {
+            neighbourReads.set(safeId, contract.nodes(safeId));
+        }
+    }
+    for (const [safeId, read] of neighbourReads) {
+        try {
+            nodes.set(safeId, await read);
+        } catch (error) {
+            console.error(`Failed to fetch node data for safeId ${safeId.toString()}: ${errorMessage(error)}`);
+        }
+    }
+
+    const tracked = new Set(trackedIds);
+    for (const safeId of new Set([...knownIds, ...nodes.keys()])) {
+        const key = safeId.toString();
+        const node = nodes.get(safeId);
+        if (node) {
+            const onList = BigInt(node.prev) !== 0n || BigInt(node.next) !== 0n || safeId === snapshot.headId;
+            if (onList || tracked.has(safeId)) {
+                snapshot.nodes[key] = { value: BigInt(node.value), prev: BigInt(node.prev), next: BigInt(node.next) };
+            }
+        } else if (!nodeReads.has(safeId) && !neighbourReads.has(safeId) && previous.nodes[key]) {
+            snapshot.nodes[key] = previous.nodes[key];
+        }
+    }
+    return snapshot;
+}
@@ -0,0 +1,201 @@
+import { ethers } from "ethers";
+
+interface PendingRead {
+    contract: ethers.Contract;
+    fragment: ethers.FunctionFragment;
+    args: unknown[];
+    callData: string;
+    resolve: (value: unknown) => void;
+    reject: (reason: unknown) => void;
+}
+
+/**
+ * A batched read that reverted or could not be decoded.
+ * Snapshot functions substitute a default for these, so they are kept for reporting.
+ */
+export interface FailedRead {
+    target: string;
+    method: string;
+    args: unknown[];
+    reason: string;
+}
+
+export interface MulticallBatcherOptions {
+    /** Block every read is pinned to; reads follow the latest block when unset. */
+    blockTag?: number;
+    /** Maximum number of calls sent in one aggregate3 eth_call. */
+    maxBatchSize?: number;
+}
+
+/**
+ * Narrows a decoded integer output, which ethers decodes as a bigint.
+ * @throws Error if the value is not a bigint, e.g. a struct or an address.
+ */
+export function decodedBigInt(value: unknown): bigint {
+    if (typeof value !== "bigint") {
+        throw new Error(`Expected an integer result, got ${typeof value} ${String(value)}`);
+    }
+    return value;
+}
+
+/**
+ * Batches contract reads through a deployed Multicall3 contract.
+ *
+ * Reads issued in the same tick are queued and sent as one or more
+ * `aggregate3` eth_calls with `allowFailure` set on every call, so a
+ * reverting read only rejects its own promise. Callers keep their usual
+ * try/catch fallbacks around each read.
+ *
+ * When a blockTag is given, every batched read and every event query made
+ * through a wrapped contract is pinned to that block.
+ */
+export class MulticallBatcher {
+    private multicall: ethers.Contract;
+    readonly blockTag?: number;
+    private maxBatchSize: number;
+    private queue: PendingRead[] = [];
+    private flushScheduled = false;
+    /** Every read that failed since the batcher was created. */
+    readonly failures: FailedRead[] = [];
+
+    constructor(multicall: ethers.Contract, options: MulticallBatcherOptions = {}) {
+        this.multicall = multicall;
+        this.blockTag = options.blockTag;
+        this.maxBatchSize = options.maxBatchSize ?? 250;
+    }
+
+    /**
+     * Queues a read of a contract function.
+     * @param contract - The contract to read from.
+     * @param method - The function name; overloads are resolved from the arguments.
+     * @param args - The function arguments.
+     * @returns A promise for the decoded result: the single output itself, or the ethers.Result of several.
+     */
+    read(contract: ethers.Contract, method: string, args: unknown[] = []): Promise<unknown> {
+        const fragment = contract.interface.getFunction(method, args);
+        if (!fragment) {
+            return Promise.reject(new Error(`Function ${method} not found on contract ${contract.target}`));
+        }
+        const callData = contract.interface.encodeFunctionData(fragment, args);
+        const promise = new Promise<unknown>((resolve, reject) => {
+            this.queue.push({ contract, fragment, args, callData, resolve, reject });
+        });
+        // Reads are often awaited after later reads were issued; keep an early
+        // revert from being reported as an unhandled rejection in the meantime.
+        promise.catch(() => undefined);
+        this.scheduleFlush();
+        return promise;
+    }
+
+    /**
+     * Reads the native ETH balance of an address through the batch.
+     */
+    getEthBalance(address: string): Promise<bigint> {
+        return this.read(this.multicall, "getEthBalance", [address]).then(decodedBigInt);
+    }
+
+    /**
+     * Wraps a contract so that calls to its ABI functions are batched reads.
+     * queryFilter is capped at the pinned block; every other property
+     * (target, interface, filters, ...) is passed through.
+     * @param contract - The contract to wrap.
+     * @returns A contract-shaped proxy.
+     */
+    wrap(contract: ethers.Contract): ethers.Contract {
+        const batcher = this;
+        return new Proxy(contract, {
+            get(target, prop) {
+                if (typeof prop === "string" && target.interface.hasFunction(prop)) {
+                    return (...args: unknown[]) => batcher.read(target, prop, args);
+                }
+                if (prop === "queryFilter" && batcher.blockTag !== undefined) {
+                    return (event: ethers.ContractEventName, fromBlock?: ethers.BlockTag, toBlock?: ethers.BlockTag) =>
+                        target.queryFilter(event, fromBlock, toBlock === undefined || toBlock === "latest" ? batcher.blockTag : toBlock);
+                }
+                const value = Reflect.get(target, prop);
+                return typeof value === "function" ? value.bind(target) : value;
+            },
+        });
+    }
+
+    /**
+     * Wraps every contract in a record.
+     */
+    wrapAll(contracts: Record<string, ethers.Contract>): Record<string, ethers.Contract> {
+        const wrapped: Record<string, ethers.Contract> = {};
+        for (const [key, contract] of Object.entries(contracts)) {
+            wrapped[key] = this.wrap(contract);
+        }
+        return wrapped;
+    }
+
+    private scheduleFlush() {
+        if (this.flushScheduled) {
+            return;
+        }
+        this.flushScheduled = true;
+        setImmediate(() => {
+            this.flushScheduled = false;
+            this.flush().catch((error) => console.error("Multicall flush failed:", error));
+        });
+    }
+
+    /**
+     * Sends every queued read, in chunks of at most maxBatchSize calls.
+     */
+    async flush(): Promise<void> {
+        const pending = this.queue;
+        this.queue = [];
+        const chunks: PendingRead[][] = [];
+        for (let i = 0; i < pending.length; i += this.maxBatchSize) {
+            chunks.push(pending.slice(i, i + this.maxBatchSize));
+        }
+        await Promise.all(chunks.map((chunk) => this.executeChunk(chunk)));
+    }
+
+    private async executeChunk(chunk: PendingRead[]) {
+        const calls = chunk.map((read) => ({
+            target: read.contract.target,
+            allowFailure: true,
+            callData: read.callData,
+        }));
+
+        let results: ethers.Result;
+        try {
+            results = await this.multicall.aggregate3.staticCall(calls, { blockTag: this.blockTag });
+        } catch (error) {
+            for (const read of chunk) {
+                this.fail(read, error);
+            }
+            return;
+        }
+
+        chunk.forEach((read, i) => {
+            const result: ethers.Result = results[i];
+            const returnData = String(result.returnData);
+            if (result.success !== true) {
+                this.fail(read, read.contract.interface.makeError(returnData, {
+                    to: read.contract.target as string,
+                    data: read.callData,
+                }));
+                return;
+            }
+            try {
+                const decoded: ethers.Result = read.contract.interface.decodeFunctionResult(read.fragment, returnData);
+                read.resolve(decoded.length === 1 ? decoded[0] : decoded);
+            } catch (error) {
+                this.fail(read, error);
+            }
+        });
+    }
+
+    private fail(read: PendingRead, error: unknown) {
+        this.failures.push({
+            target: read.contract.target as string,
+            method: read.fragment.name,
+            args: read.args,
+            reason: error instanceof Error ? error.message : String(error),
+        });
+        read.reject(error);
+    }
+}
@@ -0,0 +1,254 @@
+import { ethers } from "ethers";
+import { Actor } from "@svylabs/ilumina";
+import { SafeDiscoverySource } from "./snapshot_interfaces";
+
+/**
+ * Safe IDs found so far, each mapped to the set of methods that found it.
+ */
+export type DiscoveredSafes = Map<bigint, Set<SafeDiscoverySource>>;
+
+function addDiscoveredSafe(discovered: DiscoveredSafes, safeId: bigint, source: SafeDiscoverySource) {
+    let sources = discovered.get(safeId);
+    if (!sources) {
+        sources = new Set();
+        discovered.set(safeId, sources);
+    }
+    sources.add(source);
+}
+
+/**
+ * Collects the safe IDs tracked in actor identifiers.
+ * @param actors - Actors whose 'safeId' identifiers should be collected.
+ * @returns The unique safe IDs, in the order they were first seen.
+ */
+export function collectActorSafeIds(actors: Actor[]): bigint[] {
+    const safeIds: Set<bigint> = new Set();
+    for (const actor of actors) {
+        const identifiers = actor.getIdentifiers();
+        if (!identifiers.safeId) {
+            continue;
+        }
+        const ids = Array.isArray(identifiers.safeId) ? identifiers.safeId : [identifiers.safeId];
+        for (const id of ids) {
+            try {
+                safeIds.add(BigInt(id));
+            } catch (error) {
+                console.warn(`Skipping invalid safeId '${id}' in actor identifiers`);
+            }
+        }
+    }
+    return Array.from(safeIds);
+}
+
+/**
+ * Walks an OrderedDoublyLinkedList from head to tail.
+ * The walk stops at the first repeated node so a corrupted list cannot loop forever.
+ * @param list - The ethers.Contract instance connected to the OrderedDoublyLinkedList contract.
+ * @returns The node IDs in list order.
+ */
+export async function walkOrderedList(list: ethers.Contract): Promise<bigint[]> {
+    const ids: bigint[] = [];
+    const visited: Set<bigint> = new Set();
+    let current = BigInt(await list.getHead());
+    while (current !== 0n) {
+        if (visited.has(current)) {
+            console.error(`Cycle detected while walking list ${list.target} at node ${current}`);
+            break;
+        }
+        visited.add(current);
+        ids.push(current);
+        const node = await list.nodes(current);
+        current = BigInt(node.next);
+    }
+    return ids;
+}
+
+/**
+ * The ordered list walks of one snapshot. Safe discovery and the list snapshotters both need every
+ * node on each list, so the first of them to ask walks it and the others are given the same node IDs.
+ * Keep one per snapshot: the IDs are only valid at the block the snapshot is pinned to.
+ */
+export class OrderedListWalks {
+    private walks = new Map<string, Promise<bigint[]>>();
+
+    /**
+     * The node IDs of a list in list order, walked on the first call for it.
+     * @param list - The ethers.Contract instance connected to the OrderedDoublyLinkedList contract.
+     */
+    nodeIds(list: ethers.Contract): Promise<bigint[]> {
+        const key = list.target.toString().toLowerCase();
+        let walk = this.walks.get(key);
+        if (!walk) {
+            walk = walkOrderedList(list);
+            this.walks.set(key, walk);
+        }
+        return walk;
+    }
+}
+
+/**
+ * Replays the OpenSafe and ERC-721 Transfer events of StableBaseCDP between two blocks onto a set of live safes.
+ * A safe whose last Transfer went to the zero address has been burned and is removed.
+ */
+async function replaySafeEvents(contract: ethers.Contract, live: Set<bigint>, fromBlock: number, toBlock: number | "latest") {
+    const openSafeEvents = await contract.queryFilter("OpenSafe", fromBlock, toBlock);
+    const transferEvents = await contract.queryFilter("Transfer", fromBlock, toBlock);
+
+    for (const event of openSafeEvents) {
+        if ("args" in event) {
+            live.add(BigInt(event.args.safeId));
+        }
+    }
+    const ordered = [...transferEvents].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+    for (const event of ordered) {
+        if (!("args" in event)) {
+            continue;
+        }
+        const tokenId = BigInt(event.args.tokenId);
+        if (event.args.to === ethers.ZeroAddress) {
+            live.delete(tokenId);
+        } else {
+            live.add(tokenId);
+        }
+    }
+}
+
+/**
+ * Replays the whole OpenSafe and ERC-721 Transfer event history of StableBaseCDP.
+ * A safe whose last Transfer went to the zero address has been burned and is left out.
+ * @param contract - The ethers.Contract instance connected to the StableBaseCDP contract.
+ * @returns The IDs of the safes that are still live according to the event history.
+ */
+export async function collectLiveSafeIdsFromEvents(contract: ethers.Contract): Promise<bigint[]> {
+    const live: Set<bigint> = new Set();
+    await replaySafeEvents(contract, live, 0, "latest");
+    return Array.from(live);
+}
+
+/**
+ * Keeps the live safes of StableBaseCDP across snapshots, so each scan only queries the OpenSafe and
+ * Transfer events mined since the previous one instead of the whole history. A scan to a block before
+ * the last one scanned means the chain was rewound, e.g. by evm_revert, and starts over from genesis.
+ */
+export class SafeEventScanner {
+    private live: Set<bigint> = new Set();
+    private nextBlock = 0;
+    // Scans run one after another, since each continues where the previous one stopped
+    private queue: Promise<unknown> = Promise.resolve();
+
+    /**
+     * The safes live at a block according to the event history.
+     * @param contract - The ethers.Contract instance connected to the StableBaseCDP contract.
+     * @param toBlock - The block to scan up to, usually the one the snapshot is pinned to.
+     */
+    liveSafeIds(contract: ethers.Contract, toBlock: number): Promise<bigint[]> {
+        const scan = this.queue.then(() => this.scan(contract, toBlock));
+        this.queue = scan.catch(() => undefined);
+        return scan;
+    }
+
+    private async scan(contract: ethers.Contract, toBlock: number): Promise<bigint[]> {
+        if (toBlock < this.nextBlock - 1) {
+            this.live = new Set();
+            this.nextBlock = 0;
+        }
+        if (toBlock >= this.nextBlock) {
+            // Replayed on a copy so a failed query leaves the scanner where it was
+            const live = new Set(this.live);
+            await replaySafeEvents(contract, live, this.nextBlock, toBlock);
+            this.live = live;
+            this.nextBlock = toBlock + 1;
+        }
+        return Array.from(this.live);
+    }
+}
+
+/**
+ * A scanner to take the event history from, and the block to scan it up to.
+ */
+export interface SafeEventScan {
+    scanner: SafeEventScanner;
+    blockNumber: number;
+}
+
+/**
+ * Finds every live safe in StableBaseCDP by combining actor identifiers,
+ * both ordered safe lists and the contract's event history.
+ * A failing method is logged and skipped so the others can still contribute.
+ * @param contract - The ethers.Contract instance connected to the StableBaseCDP contract.
+ * @param actors - Actors whose 'safeId' identifiers should be included.
+ * @param safesOrderedForLiquidation - The liquidation queue contract, if deployed.
+ * @param safesOrderedForRedemption - The redemption queue contract, if deployed.
+ * @param eventScan - Where to take the event history from; the whole history is queried when unset.
+ * @param listWalks - The list walks of the snapshot being taken, shared with the list snapshotters.
+ * @returns The discovered safe IDs with the methods that found each of them.
+ */
+export async function discoverSafes(
+    contract: ethers.Contract,
+    actors: Actor[],
+    safesOrderedForLiquidation?: ethers.Contract,
+    safesOrderedForRedemption?: ethers.Contract,
+    eventScan?: SafeEventScan,
+    listWalks: OrderedListWalks = new OrderedListWalks()
+): Promise<DiscoveredSafes> {
+    const discovered: DiscoveredSafes = new Map();
+
+    for (const safeId of collectActorSafeIds(actors)) {
+        addDiscoveredSafe(discovered, safeId, "actorIdentifiers");
+    }
+
+    // Both list walks and the event scan run concurrently so their reads can be batched together
+    const walks: [SafeDiscoverySource, Promise<bigint[]>][] = [];
+    if (safesOrderedForLiquidation) {
+        walks.push(["liquidationQueue", listWalks.nodeIds(safesOrderedForLiquidation)]);
+    }
+    if (safesOrderedForRedemption) {
+        walks.push(["redemptionQueue", listWalks.nodeIds(safesOrderedForRedemption)]);
+    }
+    walks.push(["events", eventScan
+        ? eventScan.scanner.liveSafeIds(contract, eventScan.blockNumber)
+        : collectLiveSafeIdsFromEvents(contract)]);
+
+    const results = await Promise.allSettled(walks.map(([, walk]) => walk));
+    results.forEach((result, i) => {
+        const source = walks[i][0];
+        if (result.status === "rejected") {
+            const error = result.reason;
+            console.error(`Error discovering safes from ${source}: ${error instanceof Error ? error.message : String(error)}`);
+            return;
+        }
+        for (const safeId of result.value) {
+            addDiscoveredSafe(discovered, safeId, source);
+        }
+    });
+
+    return discovered;
+}
+
+/**
+ * Moves a safe ID between actor identifiers after the safe changed hands: it is removed from
+ * every actor and added to the one whose account is the new owner, if that is an actor.
+ * Identifiers are updated in place, in the shape collectActorSafeIds reads.
+ * @param actors - Every actor of the run.
+ * @param safeId - The safe that was transferred.
+ * @param newOwner - The address the safe was transferred to.
+ */
+export function moveActorSafeId(actors: Actor[], safeId: bigint, newOwner: string) {
+    for (const actor of actors) {
+        const identifiers = actor.getIdentifiers();
+        const ids = identifiers.safeId === undefined ? [] : Array.isArray(identifiers.safeId) ? identifiers.safeId : [identifiers.safeId];
+        const kept = ids.filter((id: unknown) => {
+            try {
+                return BigInt(id as string) !== safeId;
+            } catch (error) {
+                return true;
+            }
+        });
+        if (actor.account.address.toLowerCase() === newOwner.toLowerCase()) {
+            kept.push(safeId.toString());
+        }
+        if (kept.length !== ids.length || actor.account.address.toLowerCase() === newOwner.toLowerCase()) {
+            identifiers.safeId = kept;
+        }
+    }
+}
@@ -2,19 +2,22 @@
 
 import {ethers} from "ethers";
 import {Actor} from "@svylabs/ilumina";
+import {OrderedListWalks} from "./safe_discovery";
 import {Node, OrderedDoublyLinkedListSnapshot} from "./snapshot_interfaces";
 
 /**
  * Takes a snapshot of the state of the OrderedDoublyLinkedList contract (safesOrderedForLiquidation).
- * This function fetches the head, tail, and all relevant node data based on provided actor identifiers.
+ * This function fetches the head, tail, every node on the list and the nodes of the safes in actor identifiers.
  * @param contract - An ethers.Contract instance connected to the OrderedDoublyLinkedList contract.
  * @param actors - An array of Actor objects, each potentially containing 'safeId' identifiers.
+ * @param listWalks - The list walks of the snapshot being taken, shared with safe discovery.
  * @returns A Promise that resolves to an OrderedDoublyLinkedListSnapshot object representing the contract's state.
  * @throws Throws an error if any contract call fails.
  */
 export async function takesafesOrderedForLiquidationContractSnapshot(
   contract: ethers.Contract,
-  actors: Actor[]
+  actors: Actor[],
+  listWalks: OrderedListWalks = new OrderedListWalks()
 ): Promise<OrderedDoublyLinkedListSnapshot> {
   const snapshot: OrderedDoublyLinkedListSnapshot = {
     headId: BigInt(0),
@@ -22,10 +25,12 @@ export async function takesafesOrderedForLiquidationContractSnapshot(
     nodes: {},
   };
   const uniqueSafeIds = new Set<bigint>();
+  const headRead = contract.getHead();
+  const tailRead = contract.getTail();
 
   // 1. Fetch headId
   try {
-    snapshot.headId = await contract.getHead();
+    snapshot.headId = await headRead;
   } catch (error) {
     console.error("Error fetching headId:", error);
     throw new Error(`Failed to fetch headId from contract: ${error}`);
@@ -33,7 +38,7 @@ export async function takesafesOrderedForLiquidationContractSnapshot(
 
   // 2. Fetch tailId
   try {
-    snapshot.tailId = await contract.getTail();
+    snapshot.tailId = await tailRead;
   } catch (error) {
     console.error("Error fetching tailId:", error);
     throw new Error(`Failed to fetch tailId from contract: ${error}`);
@@ -73,6 +78,16 @@ export async function takesafesOrderedForLiquidationContractSnapshot(
     }
   }
 
+  // 4. Add every node on the list, so its structure can be checked end to end
+  try {
+    for (const safeId of await listWalks.nodeIds(contract)) {
+      uniqueSafeIds.add(safeId);
+    }
+  } catch (error) {
+    console.error("Error walking the list:", error);
+    throw new Error(`Failed to walk the list from its head: ${error}`);
+  }
+
   // Add headId and tailId to uniqueSafeIds if they are not zero, as they might be nodes too
   if (snapshot.headId !== BigInt(0)) {
     uniqueSafeIds.add(snapshot.headId);
@@ -81,11 +96,15 @@ export async function takesafesOrderedForLiquidationContractSnapshot(
     uniqueSafeIds.add(snapshot.tailId);
   }
 
-  // 4. Fetch node data for all unique safeIds
+  // 5. Fetch node data for all unique safeIds
+  const nodeReads = new Map<bigint, Promise<any>>();
+  for (const safeId of uniqueSafeIds) {
+    nodeReads.set(safeId, contract.nodes(safeId));
+  }
   for (const safeId of uniqueSafeIds) {
     try {
       // The contract's 'nodes' function typically returns a struct
-      const nodeData: any = await contract.nodes(safeId);
+      const nodeData: any = await nodeReads.get(safeId);
 
       const node: Node = {
         value: BigInt(nodeData.value),
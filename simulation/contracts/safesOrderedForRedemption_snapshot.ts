@@ -2,29 +2,34 @@
 
 import {ethers} from "ethers";
 import {Actor} from "@svylabs/ilumina";
+import {OrderedListWalks} from "./safe_discovery";
 import {Node, OrderedDoublyLinkedListSnapshot} from "./snapshot_interfaces.ts";
 
 /**
  * Takes a snapshot of OrderedDoublyLinkedList contract state, specifically focusing on 'safesOrderedForRedemption'.
- * This function captures the head, tail, and all relevant nodes associated with 'safeId' identifiers.
+ * This function captures the head, tail, every node on the list and the nodes associated with 'safeId' identifiers.
  * @param contract - The ethers.Contract instance connected to the OrderedDoublyLinkedList contract.
  * @param actors - An array of Actor objects, each potentially containing 'safeId' identifiers to query node data.
+ * @param listWalks - The list walks of the snapshot being taken, shared with safe discovery.
  * @returns A Promise that resolves to an OrderedDoublyLinkedListSnapshot object representing the contract's state.
  * @throws {Error} If any contract call fails or if data parsing encounters an issue.
  */
 export async function takesafesOrderedForRedemptionContractSnapshot(
   contract: ethers.Contract,
-  actors: Actor[]
+  actors: Actor[],
+  listWalks: OrderedListWalks = new OrderedListWalks()
 ): Promise<OrderedDoublyLinkedListSnapshot> {
   const snapshot: OrderedDoublyLinkedListSnapshot = {
     headId: BigInt(0),
     tailId: BigInt(0),
     nodes: {},
   };
+  const headRead = contract.getHead();
+  const tailRead = contract.getTail();
 
   try {
     // Fetch headId
-    const headId = await contract.getHead();
+    const headId = await headRead;
     snapshot.headId = BigInt(headId);
   } catch (error) {
     throw new Error(`Failed to fetch headId from contract: ${error}`);
@@ -32,7 +37,7 @@ export async function takesafesOrderedForRedemptionContractSnapshot(
 
   try {
     // Fetch tailId
-    const tailId = await contract.getTail();
+    const tailId = await tailRead;
     snapshot.tailId = BigInt(tailId);
   } catch (error) {
     throw new Error(`Failed to fetch tailId from contract: ${error}`);
@@ -61,10 +66,23 @@ export async function takesafesOrderedForRedemptionContractSnapshot(
     }
   }
 
+  // Add every node on the list, so its structure can be checked end to end
+  try {
+    for (const id of await listWalks.nodeIds(contract)) {
+      safeIdsToFetch.add(id);
+    }
+  } catch (error) {
+    throw new Error(`Failed to walk the list from its head: ${error}`);
+  }
+
   // Fetch node data for each unique safeId
+  const nodeReads = new Map<bigint, Promise<any>>();
+  for (const id of safeIdsToFetch) {
+    nodeReads.set(id, contract.nodes(id));
+  }
   for (const id of safeIdsToFetch) {
     try {
-      const nodeData = await contract.nodes(id);
+      const nodeData = await nodeReads.get(id);
       if (nodeData) {
         const node: Node = {
           value: BigInt(nodeData.value),
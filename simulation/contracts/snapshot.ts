@@ -1,83 +1,176 @@
 // Generated by SnapshotCodeGenerator
 
 import { Snapshot, SnapshotProvider } from "@svylabs/ilumina";
-import { Contract, HardhatEthersSigner } from "ethers";
+import { Contract } from "ethers";
 import { Actor } from "@svylabs/ilumina";
+import { MulticallBatcher } from "./multicall_batcher";
+import { SnapshotSchemaReport, checkContractSnapshot, formatSchemaReport, hasSchemaProblems } from "./snapshot_schema";
+import { SnapshotRegistry, SnapshotScope, snapshotRegistry } from "./snapshot_registry";
+import { OrderedListWalks, SafeEventScanner } from "./safe_discovery";
+import { diffContractSnapshots, formatSnapshotDiff, pathMatches } from "../snapshots/diff";
+import {
+    DFIDTokenContractSnapshot,
+    DFIRETokenSnapshot,
+    IDFIREStakingSnapshot,
+    StabilityPoolSnapshot,
+    StableBaseCDPSnapshot,
+    OrderedDoublyLinkedListSnapshot,
+    MockPriceOracleSnapshot,
+} from "./snapshot_interfaces";
+import { Wired } from "./wiring_snapshot";
 
 
-import { takedfidTokenContractSnapshot } from "./dfidToken_snapshot.ts";
-
-import { takedfireTokenContractSnapshot } from "./dfireToken_snapshot.ts";
-
-import { takedfireStakingContractSnapshot } from "./dfireStaking_snapshot.ts";
-
-import { takestabilityPoolContractSnapshot } from "./stabilityPool_snapshot.ts";
-
-import { takestableBaseCDPContractSnapshot } from "./stableBaseCDP_snapshot.ts";
-
-import { takesafesOrderedForLiquidationContractSnapshot } from "./safesOrderedForLiquidation_snapshot.ts";
-
-import { takesafesOrderedForRedemptionContractSnapshot } from "./safesOrderedForRedemption_snapshot.ts";
+export interface ContractSnapshot {
 
-import { takemockPriceOracleContractSnapshot } from "./mockPriceOracle_snapshot.ts";
+    dfidToken: Wired<DFIDTokenContractSnapshot>;
 
+    dfireToken: Wired<DFIRETokenSnapshot>;
 
-export interface ContractSnapshot {
+    dfireStaking: Wired<IDFIREStakingSnapshot>;
 
-    dfidToken: DFIDTokenContractSnapshot;
+    stabilityPool: Wired<StabilityPoolSnapshot>;
 
-    dfireToken: DFIRETokenSnapshot;
+    stableBaseCDP: Wired<StableBaseCDPSnapshot>;
 
-    dfireStaking: DFIREStakingSnapshot;
+    safesOrderedForLiquidation: Wired<OrderedDoublyLinkedListSnapshot>;
 
-    stabilityPool: StabilityPoolSnapshot;
+    safesOrderedForRedemption: Wired<OrderedDoublyLinkedListSnapshot>;
 
-    stableBaseCDP: StableBaseCDPSnapshot;
+    mockPriceOracle: Wired<MockPriceOracleSnapshot>;
 
-    safesOrderedForLiquidation: OrderedDoublyLinkedListSnapshot;
+}
 
-    safesOrderedForRedemption: OrderedDoublyLinkedListSnapshot;
+/**
+ * The block every read of a snapshot was pinned to, and the chain it belongs to.
+ */
+export interface SnapshotBlock {
+    number: bigint;
+    timestamp: bigint;
+    hash: string;
+    /** The block's base fee per gas; 0 on chains without EIP-1559. */
+    baseFee: bigint;
+    chainId: bigint;
+}
 
-    mockPriceOracle: MockPriceOracleSnapshot;
+export interface BlockPinnedSnapshot extends Snapshot {
+    block: SnapshotBlock;
+    /** Schema problems found when the snapshot was taken. */
+    schemaReport: SnapshotSchemaReport;
+}
 
+export interface ContractSnapshotProviderOptions {
+    /**
+     * Refresh only what the logs since the previous snapshot touched. The logs are read with getLogs over
+     * the blocks mined since then, not taken from the action's receipt.
+     */
+    incremental?: boolean;
+    /** Take a full snapshot every this many snapshots when incremental; defaults to 10. */
+    fullSnapshotInterval?: number;
+    /** Also take a full snapshot after every incremental one and throw if they differ. */
+    verifyIncremental?: boolean;
+    /** The snapshotters to assemble ContractSnapshot from; defaults to snapshotRegistry. */
+    registry?: SnapshotRegistry;
 }
 
+// Discovery sources depend on how a safe was found, not on contract state
+const UNVERIFIED_PATHS = ["stableBaseCDP.safeDiscovery"];
+
 export class ContractSnapshotProvider implements SnapshotProvider {
     private contracts: Record<string, Contract>;
     private actors: Actor[];
-
-    constructor(contracts: Record<string, Contract>, actors: Actor[]) {
+    private options: ContractSnapshotProviderOptions;
+    private registry: SnapshotRegistry;
+    private previousSnapshot?: BlockPinnedSnapshot;
+    private snapshotsSinceFull = 0;
+    // Full snapshots discover safes from the events mined since the previous one, not the whole history
+    private safeEventScanner = new SafeEventScanner();
+
+    constructor(contracts: Record<string, Contract>, actors: Actor[], options: ContractSnapshotProviderOptions = {}) {
         this.contracts = contracts;
         this.actors = actors;
+        this.options = options;
+        this.registry = options.registry ?? snapshotRegistry;
+        if (!contracts.multicall) {
+            throw new Error("ContractSnapshotProvider needs the multicall contract deployed by deployContracts");
+        }
+        const unregistered = this.registry.unregisteredKeys(contracts).filter(key => key !== "multicall");
+        if (unregistered.length > 0) {
+            console.warn(`No snapshotter registered for ${unregistered.join(", ")}; their state is left out of snapshots`);
+        }
     }
 
-    async snapshot(): Promise<Snapshot> {   
-        const snapshot: Snapshot = {
+    async snapshot(): Promise<BlockPinnedSnapshot> {   
+        // Capture the block once so every contract is read at the same height,
+        // even if something mines while the snapshot is being taken.
+        const provider = this.contracts.multicall.runner?.provider;
+        if (!provider) {
+            throw new Error("The multicall contract is not connected to a provider");
+        }
+        const [block, network] = await Promise.all([provider.getBlock("latest"), provider.getNetwork()]);
+        if (!block || !block.hash) {
+            throw new Error("Failed to fetch the latest block for the snapshot");
+        }
+        const snapshot: BlockPinnedSnapshot = {
             contractSnapshot: {},
-            accountSnapshot: {}
+            accountSnapshot: {},
+            block: {
+                number: BigInt(block.number),
+                timestamp: BigInt(block.timestamp),
+                hash: block.hash,
+                baseFee: block.baseFeePerGas ?? 0n,
+                chainId: network.chainId
+            },
+            schemaReport: { missingFields: [], typeMismatches: [], fallbacks: [] }
+        };
+        // Every contract read below goes through the batcher; the snapshot functions
+        // run concurrently so their reads end up in the same aggregate calls.
+        const batcher = new MulticallBatcher(this.contracts.multicall, { blockTag: block.number });
+        const contracts = batcher.wrapAll(this.contracts);
+        // Native balances of every actor and every deployed contract, which hold collateral and fees
+        const accountAddresses = Array.from(new Set([
+            ...this.actors.map(actor => actor.account.address),
+            ...Object.values(this.contracts).map(contract => contract.target as string),
+        ]));
+        const balanceReads = accountAddresses.map(address => batcher.getEthBalance(address));
+        const scope: SnapshotScope = {
+            safeEvents: { scanner: this.safeEventScanner, blockNumber: block.number },
+            listWalks: new OrderedListWalks(),
         };
-        const contractSnapshot = {};
-        
-        contractSnapshot["dfidToken"] = await takedfidTokenContractSnapshot(this.contracts.dfidToken, this.actors);
-        
-        contractSnapshot["dfireToken"] = await takedfireTokenContractSnapshot(this.contracts.dfireToken, this.actors);
-        
-        contractSnapshot["dfireStaking"] = await takedfireStakingContractSnapshot(this.contracts.dfireStaking, this.actors);
-        
-        contractSnapshot["stabilityPool"] = await takestabilityPoolContractSnapshot(this.contracts.stabilityPool, this.actors);
-        
-        contractSnapshot["stableBaseCDP"] = await takestableBaseCDPContractSnapshot(this.contracts.stableBaseCDP, this.actors);
-        
-        contractSnapshot["safesOrderedForLiquidation"] = await takesafesOrderedForLiquidationContractSnapshot(this.contracts.safesOrderedForLiquidation, this.actors);
-        
-        contractSnapshot["safesOrderedForRedemption"] = await takesafesOrderedForRedemptionContractSnapshot(this.contracts.safesOrderedForRedemption, this.actors);
-        
-        contractSnapshot["mockPriceOracle"] = await takemockPriceOracleContractSnapshot(this.contracts.mockPriceOracle, this.actors);
-        
-        snapshot.contractSnapshot = contractSnapshot;
-        for (const actor of this.actors) {
-            snapshot.accountSnapshot[actor.account.address] = await (actor.account.value as HardhatEthersSigner).getBalance();
+
+        const previous = this.previousSnapshot;
+        const fullSnapshotDue = this.snapshotsSinceFull + 1 >= (this.options.fullSnapshotInterval ?? 10);
+        if (this.options.incremental && previous && !fullSnapshotDue) {
+            // snapshot() is not given the action's receipt, so the logs come from the block range instead:
+            // it covers every receipt mined since the previous snapshot, including blocks mined outside actions
+            const logs = previous.block.number < BigInt(block.number)
+                ? await provider.getLogs({ fromBlock: Number(previous.block.number) + 1, toBlock: block.number })
+                : [];
+            snapshot.contractSnapshot = await this.registry.refreshSnapshot(previous.contractSnapshot, logs, contracts, this.actors, scope);
+            this.snapshotsSinceFull++;
+            if (this.options.verifyIncremental) {
+                const full = await this.registry.takeSnapshot(contracts, this.actors, scope);
+                const differences = diffContractSnapshots(snapshot.contractSnapshot, full)
+                    .filter(change => !UNVERIFIED_PATHS.some(pattern => pathMatches(change.path, pattern)));
+                if (differences.length > 0) {
+                    throw new Error(`Incremental snapshot at block ${block.number} differs from the full snapshot (incremental -> full):\n${formatSnapshotDiff(differences)}`);
+                }
+            }
+        } else {
+            snapshot.contractSnapshot = await this.registry.takeSnapshot(contracts, this.actors, scope);
+            this.snapshotsSinceFull = 0;
+        }
+
+        // Report bad data here, before any action validates against it
+        snapshot.schemaReport = checkContractSnapshot(snapshot.contractSnapshot, batcher.failures, this.contracts);
+        if (hasSchemaProblems(snapshot.schemaReport)) {
+            console.error(`Snapshot at block ${block.number} does not match snapshot_interfaces.ts:\n${formatSchemaReport(snapshot.schemaReport)}`);
         }
+
+        const balances = await Promise.all(balanceReads);
+        accountAddresses.forEach((address, i) => {
+            snapshot.accountSnapshot[address] = balances[i];
+        });
+        this.previousSnapshot = snapshot;
         return snapshot;
     }
-}
\ No newline at end of file
+}
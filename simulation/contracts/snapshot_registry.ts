@@ -0,0 +1,218 @@
+import { ethers } from "ethers";
+import { Actor } from "@svylabs/ilumina";
+import type { ContractSnapshot } from "./snapshot";
+import {
+    TouchedEntities,
+    collectTouchedEntities,
+    refreshDfidToken,
+    refreshDfireStaking,
+    refreshDfireToken,
+    refreshOrderedList,
+    refreshStabilityPool,
+    refreshStableBaseCDP,
+} from "./incremental_snapshot";
+import { takedfidTokenContractSnapshot } from "./dfidToken_snapshot";
+import { takedfireTokenContractSnapshot } from "./dfireToken_snapshot";
+import { takedfireStakingContractSnapshot } from "./dfireStaking_snapshot";
+import { takestabilityPoolContractSnapshot } from "./stabilityPool_snapshot";
+import { takestableBaseCDPContractSnapshot } from "./stableBaseCDP_snapshot";
+import { takesafesOrderedForLiquidationContractSnapshot } from "./safesOrderedForLiquidation_snapshot";
+import { takesafesOrderedForRedemptionContractSnapshot } from "./safesOrderedForRedemption_snapshot";
+import { takemockPriceOracleContractSnapshot } from "./mockPriceOracle_snapshot";
+import { withWiring } from "./wiring_snapshot";
+import { OrderedListWalks, SafeEventScan } from "./safe_discovery";
+
+/**
+ * What the provider shares with every snapshotter of one snapshot.
+ */
+export interface SnapshotScope {
+    /** The provider's safe event scanner, and the block the snapshot is pinned to. */
+    safeEvents?: SafeEventScan;
+    /** The ordered list walks of the snapshot, shared by safe discovery and the list snapshotters. */
+    listWalks?: OrderedListWalks;
+}
+
+/**
+ * What a snapshotter is given besides its own contract.
+ */
+export interface SnapshotContext extends SnapshotScope {
+    /** Every deployed contract, as passed to the provider (usually wrapped by a batcher). */
+    contracts: Record<string, ethers.Contract>;
+    /** The actors that carry at least one of the snapshotter's identifiers. */
+    actors: Actor[];
+}
+
+/**
+ * Reads the state of one deployed contract into its ContractSnapshot entry.
+ */
+export interface ContractSnapshotter<T> {
+    /** Other contract keys this snapshotter reads; the snapshot fails if one is not deployed. */
+    dependencies: string[];
+    /** Actor identifiers the snapshotter keys its records by; every actor is passed when unset. */
+    identifiers?: string[];
+    take(contract: ethers.Contract, context: SnapshotContext): Promise<T>;
+    /**
+     * Brings the previous entry up to date with what the logs since then touched.
+     * When unset, the entry is taken again if its contract emitted a log and reused otherwise.
+     */
+    refresh?(contract: ethers.Contract, previous: T, touched: TouchedEntities, context: SnapshotContext): Promise<T>;
+}
+
+/**
+ * Maps contract keys to the snapshotters that build their ContractSnapshot entries.
+ * Snapshots cover every deployed contract with a registered snapshotter, so a contract
+ * added to deployContracts is snapshotted as soon as a snapshotter is registered under its key.
+ */
+export class SnapshotRegistry {
+    private snapshotters = new Map<string, ContractSnapshotter<any>>();
+
+    register<K extends keyof ContractSnapshot>(key: K, snapshotter: ContractSnapshotter<ContractSnapshot[K]>): this {
+        if (this.snapshotters.has(key)) {
+            throw new Error(`A snapshotter is already registered for ${key}`);
+        }
+        this.snapshotters.set(key, snapshotter);
+        return this;
+    }
+
+    has(key: string): boolean {
+        return this.snapshotters.has(key);
+    }
+
+    /**
+     * Takes a full snapshot of every deployed contract that has a snapshotter.
+     * @param contracts - The deployed contracts, keyed as in deployContracts.
+     * @param actors - Every actor in the simulation.
+     * @param scope - What the provider shares with every snapshotter.
+     */
+    async takeSnapshot(contracts: Record<string, ethers.Contract>, actors: Actor[], scope: SnapshotScope = {}): Promise<ContractSnapshot> {
+        const shared: SnapshotScope = { ...scope, listWalks: scope.listWalks ?? new OrderedListWalks() };
+        return this.assemble(contracts, (key, snapshotter) =>
+            snapshotter.take(contracts[key], this.context(snapshotter, contracts, actors, shared))
+        );
+    }
+
+    /**
+     * Refreshes a previous snapshot with the logs mined since it was taken.
+     * Contracts deployed after the previous snapshot are taken in full.
+     * @param previous - The previous contract snapshot.
+     * @param logs - The logs of every receipt mined since the previous snapshot.
+     * @param contracts - The deployed contracts, keyed as in deployContracts.
+     * @param actors - Every actor in the simulation.
+     * @param scope - What the provider shares with every snapshotter.
+     */
+    async refreshSnapshot(
+        previous: ContractSnapshot,
+        logs: readonly ethers.Log[],
+        contracts: Record<string, ethers.Contract>,
+        actors: Actor[],
+        scope: SnapshotScope = {}
+    ): Promise<ContractSnapshot> {
+        const touched = collectTouchedEntities(logs, contracts);
+        const entries = previous as unknown as Record<string, any>;
+        return this.assemble(contracts, (key, snapshotter) => {
+            const context = this.context(snapshotter, contracts, actors, scope);
+            if (entries[key] === undefined) {
+                return snapshotter.take(contracts[key], context);
+            }
+            if (snapshotter.refresh) {
+                return snapshotter.refresh(contracts[key], entries[key], touched, context);
+            }
+            return touched.contracts.has(key) ? snapshotter.take(contracts[key], context) : Promise.resolve(entries[key]);
+        });
+    }
+
+    /**
+     * Deployed contracts that no snapshotter covers.
+     */
+    unregisteredKeys(contracts: Record<string, ethers.Contract>): string[] {
+        return Object.keys(contracts).filter(key => !this.snapshotters.has(key));
+    }
+
+    private context(snapshotter: ContractSnapshotter<any>, contracts: Record<string, ethers.Contract>, actors: Actor[], scope: SnapshotScope): SnapshotContext {
+        const identifiers = snapshotter.identifiers;
+        return {
+            ...scope,
+            contracts,
+            actors: identifiers
+                ? actors.filter(actor => identifiers.some(identifier => actor.getIdentifiers()[identifier] !== undefined))
+                : actors,
+        };
+    }
+
+    private async assemble(
+        contracts: Record<string, ethers.Contract>,
+        read: (key: string, snapshotter: ContractSnapshotter<any>) => Promise<any>
+    ): Promise<ContractSnapshot> {
+        const reads: [string, Promise<any>][] = [];
+        for (const [key, snapshotter] of this.snapshotters) {
+            if (!contracts[key]) {
+                continue;
+            }
+            const missing = snapshotter.dependencies.filter(dependency => !contracts[dependency]);
+            if (missing.length > 0) {
+                throw new Error(`Cannot snapshot ${key}: ${missing.join(", ")} not deployed`);
+            }
+            // Every read is issued before any is awaited so their contract calls can be batched together
+            reads.push([key, read(key, snapshotter)]);
+        }
+        const contractSnapshot: Record<string, any> = {};
+        for (const [key, value] of await Promise.all(reads.map(async ([key, pending]) => [key, await pending] as const))) {
+            contractSnapshot[key] = value;
+        }
+        return contractSnapshot as ContractSnapshot;
+    }
+}
+
+/**
+ * The snapshotters of every contract deployed by deployContracts, each with the contract's wiring.
+ */
+export const snapshotRegistry = new SnapshotRegistry()
+    .register("dfidToken", withWiring("dfidToken", {
+        dependencies: [],
+        identifiers: ["accountAddress"],
+        take: (contract, { actors, contracts }) => takedfidTokenContractSnapshot(contract, actors, contracts),
+        refresh: (contract, previous, touched, { actors, contracts }) => refreshDfidToken(contract, previous, actors, contracts, touched),
+    }))
+    .register("dfireToken", withWiring("dfireToken", {
+        dependencies: [],
+        identifiers: ["accountAddress"],
+        take: (contract, { actors, contracts }) => takedfireTokenContractSnapshot(contract, actors, contracts),
+        refresh: (contract, previous, touched, { actors, contracts }) => refreshDfireToken(contract, previous, actors, contracts, touched),
+    }))
+    // Pool accumulators can move without a log from the pool, so the pools' globals are read on every refresh
+    .register("dfireStaking", withWiring("dfireStaking", {
+        dependencies: [],
+        take: (contract, { actors, contracts }) => takedfireStakingContractSnapshot(contract, actors, contracts),
+        refresh: (contract, previous, touched, { actors, contracts }) => refreshDfireStaking(contract, previous, actors, contracts, touched),
+    }))
+    .register("stabilityPool", withWiring("stabilityPool", {
+        dependencies: [],
+        identifiers: ["accountAddress"],
+        take: (contract, { actors }) => takestabilityPoolContractSnapshot(contract, actors),
+        refresh: (contract, previous, touched, { actors }) => refreshStabilityPool(contract, previous, actors, touched),
+    }))
+    .register("stableBaseCDP", withWiring("stableBaseCDP", {
+        dependencies: ["safesOrderedForLiquidation", "safesOrderedForRedemption"],
+        identifiers: ["accountAddress", "safeId"],
+        take: (contract, { actors, contracts, safeEvents, listWalks }) => takestableBaseCDPContractSnapshot(contract, actors, contracts, undefined, safeEvents, listWalks),
+        refresh: (contract, previous, touched, { actors, contracts }) => refreshStableBaseCDP(contract, previous, actors, contracts, touched),
+    }))
+    .register("safesOrderedForLiquidation", withWiring("safesOrderedForLiquidation", {
+        dependencies: [],
+        identifiers: ["safeId"],
+        take: (contract, { actors, listWalks }) => takesafesOrderedForLiquidationContractSnapshot(contract, actors, listWalks),
+        refresh: (contract, previous, touched, { actors }) => refreshOrderedList(contract, "safesOrderedForLiquidation", previous, actors, touched),
+    }))
+    .register("safesOrderedForRedemption", withWiring("safesOrderedForRedemption", {
+        dependencies: [],
+        identifiers: ["safeId"],
+        take: (contract, { actors, listWalks }) => takesafesOrderedForRedemptionContractSnapshot(contract, actors, listWalks),
+        refresh: (contract, previous, touched, { actors }) => refreshOrderedList(contract, "safesOrderedForRedemption", previous, actors, touched),
+    }))
+    // The price may be set without a log, so it is read again on every refresh
+    .register("mockPriceOracle", withWiring("mockPriceOracle", {
+        dependencies: [],
+        identifiers: [],
+        take: (contract, { actors }) => takemockPriceOracleContractSnapshot(contract, actors),
+        refresh: (contract, previous, touched, { actors }) => takemockPriceOracleContractSnapshot(contract, actors),
+    }));
@@ -0,0 +1,351 @@
+import { ethers } from "ethers";
+import { FailedRead } from "./multicall_batcher";
+import {
+    DFIDTokenContractSnapshot,
+    DFIRETokenSnapshot,
+    IDFIREStakingSnapshot,
+    StabilityPoolSnapshot,
+    StableBaseCDPSnapshot,
+    OrderedDoublyLinkedListSnapshot,
+    MockPriceOracleSnapshot,
+} from "./snapshot_interfaces";
+import { ContractWiring } from "./wiring_snapshot";
+
+/**
+ * Runtime description of a snapshot field.
+ * Records are keyed by address or ID; "address" is a string that must be a valid address.
+ */
+export type FieldSchema =
+    | "bigint"
+    | "number"
+    | "boolean"
+    | "string"
+    | "address"
+    | { record: FieldSchema }
+    | { array: FieldSchema }
+    | { tuple: FieldSchema[] }
+    | { object: Record<string, FieldSchema> };
+
+/**
+ * The schema shape an interface must have. Declaring a schema with this type makes
+ * the compiler reject it when a field is added to, removed from or retyped in the interface.
+ */
+export type SchemaFor<T> =
+    T extends bigint ? "bigint" :
+    T extends boolean ? "boolean" :
+    T extends number ? "number" :
+    T extends string ? "string" | "address" :
+    T extends readonly [any, ...any[]] ? { tuple: { [K in keyof T]: SchemaFor<T[K]> } } :
+    T extends readonly (infer U)[] ? { array: SchemaFor<U> } :
+    T extends object ? (string extends keyof T ? { record: SchemaFor<T[string & keyof T]> } : { object: { [K in keyof T]-?: SchemaFor<T[K]> } }) :
+    never;
+
+const dfidTokenSchema: SchemaFor<DFIDTokenContractSnapshot> = {
+    object: {
+        accountBalances: { record: "bigint" },
+        accountAllowances: { record: { record: "bigint" } },
+        tokenName: "string",
+        tokenSymbol: "string",
+        tokenDecimals: "bigint",
+        tokenTotalSupply: "bigint",
+        contractOwner: "address",
+        totalTokensBurned: "bigint",
+    },
+};
+
+const dfireTokenSchema: SchemaFor<DFIRETokenSnapshot> = {
+    object: {
+        decimals: "bigint",
+        tokenName: "string",
+        contractOwner: "address",
+        tokenSymbol: "string",
+        totalBurnedSupply: "bigint",
+        totalTokenSupply: "bigint",
+        accounts: { record: { object: { balance: "bigint", allowances: { record: "bigint" } } } },
+    },
+};
+
+const dfireStakingSchema: SchemaFor<IDFIREStakingSnapshot> = {
+    object: {
+        rewardSenderActive: "boolean",
+        totalCollateralPerToken: "bigint",
+        totalRewardPerToken: "bigint",
+        totalStake: "bigint",
+        stakes: { record: { object: { stake: "bigint", rewardSnapshot: "bigint", collateralSnapshot: "bigint" } } },
+        userPendingRewards: { record: { object: { pendingRewardAmount: "bigint", pendingCollateralReward: "bigint" } } },
+    },
+};
+
+const stabilityPoolSchema: SchemaFor<StabilityPoolSnapshot> = {
+    object: {
+        collateralLoss: "bigint",
+        lastSBRRewardDistributedTime: "bigint",
+        minimumScalingFactor: "bigint",
+        precision: "bigint",
+        rewardLoss: "bigint",
+        rewardSenderActive: "boolean",
+        sbrDistributionRate: "bigint",
+        sbrRewardDistributionEndTime: "bigint",
+        sbrRewardDistributionStatus: "bigint",
+        sbrRewardLoss: "bigint",
+        stakeResetCount: "bigint",
+        stakeScalingFactor: "bigint",
+        totalCollateralPerToken: "bigint",
+        totalRewardPerToken: "bigint",
+        totalSbrRewardPerToken: "bigint",
+        totalStakedRaw: "bigint",
+        users: {
+            record: {
+                object: {
+                    stake: "bigint",
+                    rewardSnapshot: "bigint",
+                    collateralSnapshot: "bigint",
+                    cumulativeProductScalingFactor: "bigint",
+                    stakeResetCount: "bigint",
+                },
+            },
+        },
+        sbrRewardSnapshots: { record: { object: { rewardSnapshot: "bigint", status: "bigint" } } },
+        userPendingCollateral: { record: "bigint" },
+        userPendingReward: { record: "bigint" },
+        userPendingRewardAndCollateral: { record: { tuple: ["bigint", "bigint", "bigint"] } },
+        stakeResetSnapshots: {
+            array: {
+                object: {
+                    scalingFactor: "bigint",
+                    totalRewardPerToken: "bigint",
+                    totalCollateralPerToken: "bigint",
+                    totalSBRRewardPerToken: "bigint",
+                },
+            },
+        },
+    },
+};
+
+const stableBaseCDPSchema: SchemaFor<StableBaseCDPSnapshot> = {
+    object: {
+        protocolMode: "number",
+        totalCollateralLoss: "bigint",
+        cumulativeCollateralPerUnitCollateral: "bigint",
+        cumulativeDebtPerUnitCollateral: "bigint",
+        totalDebtLoss: "bigint",
+        currentMode: "number",
+        contractName: "string",
+        sbrStakingPoolRewardsEnabled: "boolean",
+        stabilityPoolRewardsEnabled: "boolean",
+        contractSymbol: "string",
+        totalCollateral: "bigint",
+        totalDebt: "bigint",
+        balanceOfSafes: { record: "bigint" },
+        safeApprovedAddress: { record: "address" },
+        inactiveDebtAndCollateral: { record: { object: { inactiveDebt: "bigint", inactiveCollateral: "bigint" } } },
+        isOperatorApprovedForAll: { record: { record: "boolean" } },
+        safeOwner: { record: "address" },
+        safeDetails: {
+            record: {
+                object: {
+                    collateralAmount: "bigint",
+                    borrowedAmount: "bigint",
+                    weight: "bigint",
+                    totalBorrowedAmount: "bigint",
+                    feePaid: "bigint",
+                },
+            },
+        },
+        safeTokenURI: { record: "string" },
+        liquidationSnapshots: { record: { object: { collateralPerCollateralSnapshot: "bigint", debtPerCollateralSnapshot: "bigint" } } },
+        pendingRedistribution: { record: { object: { collateralIncrease: "bigint", debtIncrease: "bigint" } } },
+        safeDiscovery: { record: { array: "string" } },
+    },
+};
+
+const orderedListSchema: SchemaFor<OrderedDoublyLinkedListSnapshot> = {
+    object: {
+        headId: "bigint",
+        tailId: "bigint",
+        nodes: { record: { object: { value: "bigint", prev: "bigint", next: "bigint" } } },
+    },
+};
+
+const mockPriceOracleSchema: SchemaFor<MockPriceOracleSnapshot> = {
+    object: {
+        currentPrice: "bigint",
+        lastGoodPriceValue: "bigint",
+        fetchedPrice: "bigint",
+        contractOwner: "address",
+    },
+};
+
+const wiringSchema: SchemaFor<ContractWiring> = {
+    object: {
+        owner: "address",
+        links: { record: "address" },
+    },
+};
+
+// Every entry of ContractSnapshot carries its contract's wiring
+function wired(schema: { object: Record<string, FieldSchema> }): FieldSchema {
+    return { object: { ...schema.object, wiring: wiringSchema } };
+}
+
+/**
+ * Schemas for every contract in ContractSnapshot, keyed the same way.
+ */
+export const contractSnapshotSchema: Record<string, FieldSchema> = {
+    dfidToken: wired(dfidTokenSchema),
+    dfireToken: wired(dfireTokenSchema),
+    dfireStaking: wired(dfireStakingSchema),
+    stabilityPool: wired(stabilityPoolSchema),
+    stableBaseCDP: wired(stableBaseCDPSchema),
+    safesOrderedForLiquidation: wired(orderedListSchema),
+    safesOrderedForRedemption: wired(orderedListSchema),
+    mockPriceOracle: wired(mockPriceOracleSchema),
+};
+
+export interface SchemaTypeMismatch {
+    path: string;
+    expected: string;
+    actual: string;
+}
+
+/**
+ * A failed contract read whose field was filled with a default by the snapshot function.
+ */
+export interface SnapshotReadFallback extends FailedRead {
+    contract: string;
+}
+
+/**
+ * Problems found in one snapshot, each kind listed separately.
+ */
+export interface SnapshotSchemaReport {
+    missingFields: string[];
+    typeMismatches: SchemaTypeMismatch[];
+    fallbacks: SnapshotReadFallback[];
+}
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+function childPath(parent: string, key: string): string {
+    if (IDENTIFIER.test(key)) {
+        return parent ? `${parent}.${key}` : key;
+    }
+    return `${parent}[${key}]`;
+}
+
+function describeValue(value: unknown): string {
+    if (value === null) {
+        return "null";
+    }
+    if (Array.isArray(value)) {
+        return "array";
+    }
+    if (typeof value === "string") {
+        return `string "${value}"`;
+    }
+    return typeof value;
+}
+
+function checkField(value: unknown, schema: FieldSchema, path: string, report: SnapshotSchemaReport) {
+    if (value === undefined) {
+        report.missingFields.push(path);
+        return;
+    }
+    const mismatch = (expected: string) => report.typeMismatches.push({ path, expected, actual: describeValue(value) });
+
+    if (typeof schema === "string") {
+        if (schema === "address") {
+            if (typeof value !== "string" || !ethers.isAddress(value)) {
+                mismatch("address");
+            }
+        } else if (typeof value !== schema) {
+            mismatch(schema);
+        }
+        return;
+    }
+    if ("tuple" in schema) {
+        if (!Array.isArray(value) || value.length !== schema.tuple.length) {
+            mismatch(`tuple of ${schema.tuple.length}`);
+            return;
+        }
+        schema.tuple.forEach((element, i) => checkField(value[i], element, `${path}[${i}]`, report));
+        return;
+    }
+    if ("array" in schema) {
+        if (!Array.isArray(value)) {
+            mismatch("array");
+            return;
+        }
+        value.forEach((element, i) => checkField(element, schema.array, `${path}[${i}]`, report));
+        return;
+    }
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        mismatch("object");
+        return;
+    }
+    const fields = value as Record<string, unknown>;
+    if ("record" in schema) {
+        for (const [key, element] of Object.entries(fields)) {
+            checkField(element, schema.record, childPath(path, key), report);
+        }
+        return;
+    }
+    for (const [key, fieldSchema] of Object.entries(schema.object)) {
+        checkField(fields[key], fieldSchema, childPath(path, key), report);
+    }
+}
+
+/**
+ * Checks a contract snapshot against contractSnapshotSchema.
+ * @param contractSnapshot - The assembled contract snapshot.
+ * @param failedReads - Reads that failed while taking the snapshot, reported as fallbacks.
+ * @param contracts - The contracts that were read, used to name the contract of each failed read.
+ * @returns The missing fields, type mismatches and fallbacks found.
+ */
+export function checkContractSnapshot(
+    contractSnapshot: Record<string, any>,
+    failedReads: FailedRead[] = [],
+    contracts: Record<string, ethers.Contract> = {}
+): SnapshotSchemaReport {
+    const report: SnapshotSchemaReport = { missingFields: [], typeMismatches: [], fallbacks: [] };
+    for (const [key, schema] of Object.entries(contractSnapshotSchema)) {
+        checkField(contractSnapshot[key], schema, key, report);
+    }
+
+    const names = new Map<string, string>();
+    for (const [key, contract] of Object.entries(contracts)) {
+        names.set(contract.target.toString().toLowerCase(), key);
+    }
+    for (const read of failedReads) {
+        report.fallbacks.push({ ...read, contract: names.get(read.target.toLowerCase()) ?? read.target });
+    }
+    return report;
+}
+
+/**
+ * Whether a report contains any problem.
+ */
+export function hasSchemaProblems(report: SnapshotSchemaReport): boolean {
+    return report.missingFields.length > 0 || report.typeMismatches.length > 0 || report.fallbacks.length > 0;
+}
+
+/**
+ * Formats a report with one section per kind of problem; empty sections are left out.
+ */
+export function formatSchemaReport(report: SnapshotSchemaReport): string {
+    const sections: string[] = [];
+    if (report.missingFields.length > 0) {
+        sections.push(`Missing fields (${report.missingFields.length}):\n${report.missingFields.map((path) => `  ${path}`).join("\n")}`);
+    }
+    if (report.typeMismatches.length > 0) {
+        sections.push(`Wrong types (${report.typeMismatches.length}):\n${report.typeMismatches
+            .map((mismatch) => `  ${mismatch.path}: expected ${mismatch.expected}, got ${mismatch.actual}`)
+            .join("\n")}`);
+    }
+    if (report.fallbacks.length > 0) {
+        sections.push(`Fell back to defaults (${report.fallbacks.length}):\n${report.fallbacks
+            .map((fallback) => `  ${fallback.contract}.${fallback.method}(${fallback.args.map(String).join(", ")}): ${fallback.reason}`)
+            .join("\n")}`);
+    }
+    return sections.join("\n");
+}
@@ -60,9 +60,25 @@ export async function takestabilityPoolContractSnapshot(
     { name: "totalStakedRaw", type: "bigint", contract_function: "totalStakedRaw" },
   ];
 
-  for (const attr of directAttributes) {
+  // Issue every read up front so a batching contract wrapper can combine them.
+  const directReads = directAttributes.map((attr) => contract[attr.contract_function]());
+  const userReads = new Map<string, Promise<any>[]>();
+  for (const actor of actors) {
+    const accountAddress = actor.getIdentifiers().accountAddress;
+    if (accountAddress && !userReads.has(accountAddress)) {
+      userReads.set(accountAddress, [
+        contract.users(accountAddress),
+        contract.sbrRewardSnapshots(accountAddress),
+        contract.userPendingCollateral(accountAddress),
+        contract.userPendingReward(accountAddress),
+        contract.userPendingRewardAndCollateral(accountAddress),
+      ]);
+    }
+  }
+
+  for (const [index, attr] of directAttributes.entries()) {
     try {
-      const value = await contract[attr.contract_function]();
+      const value = await directReads[index];
       if (attr.type === "bigint") {
         (snapshot as any)[attr.name] = BigInt(value);
       } else if (attr.type === "boolean") {
@@ -86,9 +102,11 @@ export async function takestabilityPoolContractSnapshot(
     const accountAddress = identifiers.accountAddress;
 
     if (accountAddress) {
+      const [usersRead, sbrRewardSnapshotsRead, pendingCollateralRead, pendingRewardRead, pendingRewardAndCollateralRead] = userReads.get(accountAddress)!;
+
       // Fetch users (IStabilityPoolUserInfo)
       try {
-        const userInfo = await contract.users(accountAddress);
+        const userInfo = await usersRead;
         snapshot.users[accountAddress] = {
           stake: BigInt(userInfo.stake),
           rewardSnapshot: BigInt(userInfo.rewardSnapshot),
@@ -109,7 +127,7 @@ export async function takestabilityPoolContractSnapshot(
 
       // Fetch sbrRewardSnapshots (IStabilityPoolSBRRewardSnapshotInfo)
       try {
-        const sbrRewardInfo = await contract.sbrRewardSnapshots(accountAddress);
+        const sbrRewardInfo = await sbrRewardSnapshotsRead;
         snapshot.sbrRewardSnapshots[accountAddress] = {
           rewardSnapshot: BigInt(sbrRewardInfo.rewardSnapshot),
           status: BigInt(sbrRewardInfo.status) as StabilityPoolSBRRewardDistribution,
@@ -124,7 +142,7 @@ export async function takestabilityPoolContractSnapshot(
 
       // Fetch userPendingCollateral (bigint)
       try {
-        const pendingCollateral = await contract.userPendingCollateral(accountAddress);
+        const pendingCollateral = await pendingCollateralRead;
         snapshot.userPendingCollateral[accountAddress] = BigInt(pendingCollateral);
       } catch (error) {
         console.error(`Error fetching StabilityPool.userPendingCollateral for ${accountAddress}:`, error);
@@ -133,7 +151,7 @@ export async function takestabilityPoolContractSnapshot(
 
       // Fetch userPendingReward (bigint)
       try {
-        const pendingReward = await contract.userPendingReward(accountAddress);
+        const pendingReward = await pendingRewardRead;
         snapshot.userPendingReward[accountAddress] = BigInt(pendingReward);
       } catch (error) {
         console.error(`Error fetching StabilityPool.userPendingReward for ${accountAddress}:`, error);
@@ -142,7 +160,7 @@ export async function takestabilityPoolContractSnapshot(
 
       // Fetch userPendingRewardAndCollateral ([bigint, bigint, bigint])
       try {
-        const pendingRewardsAndCollateral = await contract.userPendingRewardAndCollateral(accountAddress);
+        const pendingRewardsAndCollateral = await pendingRewardAndCollateralRead;
         snapshot.userPendingRewardAndCollateral[accountAddress] = [
           BigInt(pendingRewardsAndCollateral[0]),
           BigInt(pendingRewardsAndCollateral[1]),
@@ -158,9 +176,13 @@ export async function takestabilityPoolContractSnapshot(
   // --- 3. Fetch indexed mapping data (stakeResetSnapshots) ---
   // Requires stakeResetCount first, which is fetched in the direct attributes section.
   if (snapshot.stakeResetCount > 0n) {
+    const stakeResetReads: Promise<any>[] = [];
+    for (let i = 0n; i < snapshot.stakeResetCount; i++) {
+      stakeResetReads.push(contract.stakeResetSnapshots(i));
+    }
     for (let i = 0n; i < snapshot.stakeResetCount; i++) {
       try {
-        const stakeResetSnapshot = await contract.stakeResetSnapshots(i);
+        const stakeResetSnapshot = await stakeResetReads[Number(i)];
         snapshot.stakeResetSnapshots.push({
           scalingFactor: BigInt(stakeResetSnapshot.scalingFactor),
           totalRewardPerToken: BigInt(stakeResetSnapshot.totalRewardPerToken),
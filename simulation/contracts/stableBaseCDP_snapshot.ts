@@ -3,18 +3,33 @@
 import { ethers } from "ethers";
 import { Actor } from "@svylabs/ilumina";
 import { StableBaseCDPSnapshot } from "./snapshot_interfaces";
+import { OrderedListWalks, SafeEventScan, discoverSafes } from "./safe_discovery";
+
+const PRECISION = 10n ** 18n;
 
 /**
  * Takes a snapshot of StableBaseCDP contract state.
  * This function fetches various state variables and aggregated data
  * from the StableBaseCDP contract, including global parameters and
- * data specific to each unique account address and safe ID found in the actors list.
+ * data specific to each unique account address found in the actors list and
+ * each live safe, as found by discoverSafes.
  * @param contract - The ethers.Contract instance connected to the StableBaseCDP contract.
  * @param actors - An array of Actor objects, each potentially containing 'accountAddress' and 'safeId' identifiers.
+ * @param contracts - The deployed contracts, used to walk 'safesOrderedForLiquidation' and 'safesOrderedForRedemption'.
+ * @param safeIds - When given, only these safes are read and discovery is skipped; used for incremental snapshots.
+ * @param eventScan - Where discovery takes the event history from; the whole history is queried when unset.
+ * @param listWalks - The list walks of the snapshot being taken, shared with the list snapshotters.
  * @returns A Promise that resolves to a StableBaseCDPSnapshot object representing the contract's state.
  * @throws {Error} If a critical contract call (for a non-record primitive attribute) fails.
  */
-export async function takestableBaseCDPContractSnapshot(contract: ethers.Contract, actors: Actor[]): Promise<StableBaseCDPSnapshot> {
+export async function takestableBaseCDPContractSnapshot(
+    contract: ethers.Contract,
+    actors: Actor[],
+    contracts: Record<string, ethers.Contract> = {},
+    safeIds?: bigint[],
+    eventScan?: SafeEventScan,
+    listWalks?: OrderedListWalks
+): Promise<StableBaseCDPSnapshot> {
     const snapshot: StableBaseCDPSnapshot = {
         protocolMode: 0,
         totalCollateralLoss: BigInt(0),
@@ -34,13 +49,15 @@ export async function takestableBaseCDPContractSnapshot(contract: ethers.Contrac
         isOperatorApprovedForAll: {},
         safeOwner: {},
         safeDetails: {},
-        safeTokenURI: {}
+        safeTokenURI: {},
+        liquidationSnapshots: {},
+        pendingRedistribution: {},
+        safeDiscovery: {}
     };
 
     const uniqueAccountAddresses: Set<string> = new Set();
-    const uniqueSafeIds: Set<bigint> = new Set();
 
-    // Collect all unique account addresses and safe IDs from actors
+    // Collect all unique account addresses from actors
     for (const actor of actors) {
         const identifiers = actor.getIdentifiers();
 
@@ -52,101 +69,126 @@ export async function takestableBaseCDPContractSnapshot(contract: ethers.Contrac
                 uniqueAccountAddresses.add(identifiers.accountAddress as string);
             }
         }
-
-        // Collect safeId
-        if (identifiers.safeId) {
-            if (Array.isArray(identifiers.safeId)) {
-                identifiers.safeId.forEach((id: bigint | string) => uniqueSafeIds.add(typeof id === 'string' ? BigInt(id) : id));
-            } else {
-                uniqueSafeIds.add(typeof identifiers.safeId === 'string' ? BigInt(identifiers.safeId) : identifiers.safeId as bigint);
-            }
-        }
     }
 
     const accountAddressesArray = Array.from(uniqueAccountAddresses);
-    const safeIdsArray = Array.from(uniqueSafeIds);
+
+    // Issue the global reads before discovering safes so a batching contract wrapper can combine them.
+    const globalReads: Record<string, Promise<any>> = {
+        PROTOCOL_MODE: contract.PROTOCOL_MODE(),
+        collateralLoss: contract.collateralLoss(),
+        cumulativeCollateralPerUnitCollateral: contract.cumulativeCollateralPerUnitCollateral(),
+        cumulativeDebtPerUnitCollateral: contract.cumulativeDebtPerUnitCollateral(),
+        debtLoss: contract.debtLoss(),
+        mode: contract.mode(),
+        name: contract.name(),
+        sbrStakingPoolCanReceiveRewards: contract.sbrStakingPoolCanReceiveRewards(),
+        stabilityPoolCanReceiveRewards: contract.stabilityPoolCanReceiveRewards(),
+        symbol: contract.symbol(),
+        totalCollateral: contract.totalCollateral(),
+        totalDebt: contract.totalDebt(),
+    };
+
+    let safeIdsArray: bigint[];
+    if (safeIds) {
+        safeIdsArray = safeIds;
+    } else {
+        // Safes tracked by actors, both ordered lists and the OpenSafe/Transfer event history
+        const discoveredSafes = await discoverSafes(
+            contract,
+            actors,
+            contracts.safesOrderedForLiquidation,
+            contracts.safesOrderedForRedemption,
+            eventScan,
+            listWalks
+        );
+        safeIdsArray = Array.from(discoveredSafes.keys());
+        for (const [safeId, sources] of discoveredSafes) {
+            snapshot.safeDiscovery[safeId.toString()] = Array.from(sources);
+        }
+    }
 
     // --- Fetching global contract state attributes ---
 
     try {
-        snapshot.protocolMode = Number(await contract.PROTOCOL_MODE());
+        snapshot.protocolMode = Number(await globalReads.PROTOCOL_MODE);
     } catch (error) {
         console.error(`Error fetching protocolMode: ${error instanceof Error ? error.message : String(error)}`);
         throw new Error(`Failed to fetch protocolMode: ${error instanceof Error ? error.message : String(error)}`);
     }
 
     try {
-        snapshot.totalCollateralLoss = BigInt(await contract.collateralLoss());
+        snapshot.totalCollateralLoss = BigInt(await globalReads.collateralLoss);
     } catch (error) {
         console.error(`Error fetching totalCollateralLoss: ${error instanceof Error ? error.message : String(error)}`);
         throw new Error(`Failed to fetch totalCollateralLoss: ${error instanceof Error ? error.message : String(error)}`);
     }
 
     try {
-        snapshot.cumulativeCollateralPerUnitCollateral = BigInt(await contract.cumulativeCollateralPerUnitCollateral());
+        snapshot.cumulativeCollateralPerUnitCollateral = BigInt(await globalReads.cumulativeCollateralPerUnitCollateral);
     } catch (error) {
         console.error(`Error fetching cumulativeCollateralPerUnitCollateral: ${error instanceof Error ? error.message : String(error)}`);
         throw new Error(`Failed to fetch cumulativeCollateralPerUnitCollateral: ${error instanceof Error ? error.message : String(error)}`);
     }
 
     try {
-        snapshot.cumulativeDebtPerUnitCollateral = BigInt(await contract.cumulativeDebtPerUnitCollateral());
+        snapshot.cumulativeDebtPerUnitCollateral = BigInt(await globalReads.cumulativeDebtPerUnitCollateral);
     } catch (error) {
         console.error(`Error fetching cumulativeDebtPerUnitCollateral: ${error instanceof Error ? error.message : String(error)}`);
         throw new Error(`Failed to fetch cumulativeDebtPerUnitCollateral: ${error instanceof Error ? error.message : String(error)}`);
     }
 
     try {
-        snapshot.totalDebtLoss = BigInt(await contract.debtLoss());
+        snapshot.totalDebtLoss = BigInt(await globalReads.debtLoss);
     } catch (error) {
         console.error(`Error fetching totalDebtLoss: ${error instanceof Error ? error.message : String(error)}`);
         throw new Error(`Failed to fetch totalDebtLoss: ${error instanceof Error ? error.message : String(error)}`);
     }
 
     try {
-        snapshot.currentMode = Number(await contract.mode());
+        snapshot.currentMode = Number(await globalReads.mode);
     } catch (error) {
         console.error(`Error fetching currentMode: ${error instanceof Error ? error.message : String(error)}`);
         throw new Error(`Failed to fetch currentMode: ${error instanceof Error ? error.message : String(error)}`);
     }
 
     try {
-        snapshot.contractName = String(await contract.name());
+        snapshot.contractName = String(await globalReads.name);
     } catch (error) {
         console.error(`Error fetching contractName: ${error instanceof Error ? error.message : String(error)}`);
         throw new Error(`Failed to fetch contractName: ${error instanceof Error ? error.message : String(error)}`);
     }
 
     try {
-        snapshot.sbrStakingPoolRewardsEnabled = Boolean(await contract.sbrStakingPoolCanReceiveRewards());
+        snapshot.sbrStakingPoolRewardsEnabled = Boolean(await globalReads.sbrStakingPoolCanReceiveRewards);
     } catch (error) {
         console.error(`Error fetching sbrStakingPoolRewardsEnabled: ${error instanceof Error ? error.message : String(error)}`);
         throw new Error(`Failed to fetch sbrStakingPoolRewardsEnabled: ${error instanceof Error ? error.message : String(error)}`);
     }
 
     try {
-        snapshot.stabilityPoolRewardsEnabled = Boolean(await contract.stabilityPoolCanReceiveRewards());
+        snapshot.stabilityPoolRewardsEnabled = Boolean(await globalReads.stabilityPoolCanReceiveRewards);
     } catch (error) {
         console.error(`Error fetching stabilityPoolRewardsEnabled: ${error instanceof Error ? error.message : String(error)}`);
         throw new Error(`Failed to fetch stabilityPoolRewardsEnabled: ${error instanceof Error ? error.message : String(error)}`);
     }
 
     try {
-        snapshot.contractSymbol = String(await contract.symbol());
+        snapshot.contractSymbol = String(await globalReads.symbol);
     } catch (error) {
         console.error(`Error fetching contractSymbol: ${error instanceof Error ? error.message : String(error)}`);
         throw new Error(`Failed to fetch contractSymbol: ${error instanceof Error ? error.message : String(error)}`);
     }
 
     try {
-        snapshot.totalCollateral = BigInt(await contract.totalCollateral());
+        snapshot.totalCollateral = BigInt(await globalReads.totalCollateral);
     } catch (error) {
         console.error(`Error fetching totalCollateral: ${error instanceof Error ? error.message : String(error)}`);
         throw new Error(`Failed to fetch totalCollateral: ${error instanceof Error ? error.message : String(error)}`);
     }
 
     try {
-        snapshot.totalDebt = BigInt(await contract.totalDebt());
+        snapshot.totalDebt = BigInt(await globalReads.totalDebt);
     } catch (error) {
         console.error(`Error fetching totalDebt: ${error instanceof Error ? error.message : String(error)}`);
         throw new Error(`Failed to fetch totalDebt: ${error instanceof Error ? error.message : String(error)}`);
@@ -154,9 +196,31 @@ export async function takestableBaseCDPContractSnapshot(contract: ethers.Contrac
 
     // --- Fetching attributes with parameters (per account/safe) ---
 
+    const balanceReads = new Map<string, Promise<any>>();
+    const operatorApprovalReads = new Map<string, Map<string, Promise<any>>>();
+    for (const ownerAddress of accountAddressesArray) {
+        balanceReads.set(ownerAddress, contract.balanceOf(ownerAddress));
+        const operatorReads = new Map<string, Promise<any>>();
+        for (const operatorAddress of accountAddressesArray) {
+            operatorReads.set(operatorAddress, contract.isApprovedForAll(ownerAddress, operatorAddress));
+        }
+        operatorApprovalReads.set(ownerAddress, operatorReads);
+    }
+    const safeReads = new Map<bigint, Record<string, Promise<any>>>();
+    for (const safeId of safeIdsArray) {
+        safeReads.set(safeId, {
+            getApproved: contract.getApproved(safeId),
+            getInactiveDebtAndCollateral: contract.getInactiveDebtAndCollateral(safeId),
+            ownerOf: contract.ownerOf(safeId),
+            safes: contract.safes(safeId),
+            tokenURI: contract.tokenURI(safeId),
+            liquidationSnapshots: contract.liquidationSnapshots(safeId),
+        });
+    }
+
     for (const ownerAddress of accountAddressesArray) {
         try {
-            snapshot.balanceOfSafes[ownerAddress] = BigInt(await contract.balanceOf(ownerAddress));
+            snapshot.balanceOfSafes[ownerAddress] = BigInt(await balanceReads.get(ownerAddress));
         } catch (error) {
             console.error(`Error fetching balanceOfSafes for ${ownerAddress}: ${error instanceof Error ? error.message : String(error)}`);
         }
@@ -166,7 +230,7 @@ export async function takestableBaseCDPContractSnapshot(contract: ethers.Contrac
                 if (!snapshot.isOperatorApprovedForAll[ownerAddress]) {
                     snapshot.isOperatorApprovedForAll[ownerAddress] = {};
                 }
-                snapshot.isOperatorApprovedForAll[ownerAddress][operatorAddress] = Boolean(await contract.isApprovedForAll(ownerAddress, operatorAddress));
+                snapshot.isOperatorApprovedForAll[ownerAddress][operatorAddress] = Boolean(await operatorApprovalReads.get(ownerAddress)!.get(operatorAddress));
             } catch (error) {
                 console.error(`Error fetching isOperatorApprovedForAll for owner ${ownerAddress} and operator ${operatorAddress}: ${error instanceof Error ? error.message : String(error)}`);
             }
@@ -174,15 +238,18 @@ export async function takestableBaseCDPContractSnapshot(contract: ethers.Contrac
     }
 
     for (const safeId of safeIdsArray) {
+        const reads = safeReads.get(safeId)!;
+        const key = safeId.toString();
+
         try {
-            snapshot.safeApprovedAddress[safeId] = String(await contract.getApproved(safeId));
+            snapshot.safeApprovedAddress[key] = String(await reads.getApproved);
         } catch (error) {
             console.error(`Error fetching safeApprovedAddress for safeId ${safeId}: ${error instanceof Error ? error.message : String(error)}`);
         }
 
         try {
-            const { inactiveDebt, inactiveCollateral } = await contract.getInactiveDebtAndCollateral(safeId);
-            snapshot.inactiveDebtAndCollateral[safeId] = {
+            const { inactiveDebt, inactiveCollateral } = await reads.getInactiveDebtAndCollateral;
+            snapshot.inactiveDebtAndCollateral[key] = {
                 inactiveDebt: BigInt(inactiveDebt),
                 inactiveCollateral: BigInt(inactiveCollateral),
             };
@@ -191,14 +258,14 @@ export async function takestableBaseCDPContractSnapshot(contract: ethers.Contrac
         }
 
         try {
-            snapshot.safeOwner[safeId] = String(await contract.ownerOf(safeId));
+            snapshot.safeOwner[key] = String(await reads.ownerOf);
         } catch (error) {
             console.error(`Error fetching safeOwner for safeId ${safeId}: ${error instanceof Error ? error.message : String(error)}`);
         }
 
         try {
-            const { collateralAmount, borrowedAmount, weight, totalBorrowedAmount, feePaid } = await contract.safes(safeId);
-            snapshot.safeDetails[safeId] = {
+            const { collateralAmount, borrowedAmount, weight, totalBorrowedAmount, feePaid } = await reads.safes;
+            snapshot.safeDetails[key] = {
                 collateralAmount: BigInt(collateralAmount),
                 borrowedAmount: BigInt(borrowedAmount),
                 weight: BigInt(weight),
@@ -210,10 +277,35 @@ export async function takestableBaseCDPContractSnapshot(contract: ethers.Contrac
         }
 
         try {
-            snapshot.safeTokenURI[safeId] = String(await contract.tokenURI(safeId));
+            snapshot.safeTokenURI[key] = String(await reads.tokenURI);
         } catch (error) {
             console.error(`Error fetching safeTokenURI for safeId ${safeId}: ${error instanceof Error ? error.message : String(error)}`);
         }
+
+        try {
+            const { collateralPerCollateralSnapshot, debtPerCollateralSnapshot } = await reads.liquidationSnapshots;
+            snapshot.liquidationSnapshots[key] = {
+                collateralPerCollateralSnapshot: BigInt(collateralPerCollateralSnapshot),
+                debtPerCollateralSnapshot: BigInt(debtPerCollateralSnapshot),
+            };
+        } catch (error) {
+            console.error(`Error fetching liquidationSnapshots for safeId ${safeId}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        // What _updateSafe will add to the safe on its next update, derived the way the contract does
+        const liquidationSnapshot = snapshot.liquidationSnapshots[key];
+        const safe = snapshot.safeDetails[key];
+        if (liquidationSnapshot && safe) {
+            const outdated = liquidationSnapshot.collateralPerCollateralSnapshot !== snapshot.cumulativeCollateralPerUnitCollateral;
+            snapshot.pendingRedistribution[key] = {
+                collateralIncrease: outdated
+                    ? (safe.collateralAmount * (snapshot.cumulativeCollateralPerUnitCollateral - liquidationSnapshot.collateralPerCollateralSnapshot)) / PRECISION
+                    : 0n,
+                debtIncrease: outdated
+                    ? (safe.collateralAmount * (snapshot.cumulativeDebtPerUnitCollateral - liquidationSnapshot.debtPerCollateralSnapshot)) / PRECISION
+                    : 0n,
+            };
+        }
     }
 
     return snapshot;
@@ -0,0 +1,93 @@
+import { ethers } from "ethers";
+import type { ContractSnapshotter } from "./snapshot_registry";
+
+/**
+ * How a contract was wired by deployContracts: its Ownable owner and the addresses setAddresses linked it to.
+ */
+export interface ContractWiring {
+    /** The zero address once ownership is renounced. */
+    owner: string;
+    /** The address each link getter returns, by getter name. */
+    links: Record<string, string>;
+}
+
+/**
+ * A contract's snapshot with its wiring alongside.
+ */
+export type Wired<T> = T & { wiring: ContractWiring };
+
+/**
+ * The getters of the addresses each contract's setAddresses sets, in parameter order, with the
+ * deployContracts key of the contract each must point to. A getter missing from the ABI is not snapshotted.
+ */
+export const CONTRACT_LINKS: Record<string, Record<string, string>> = {
+    dfidToken: { stableBaseCDP: "stableBaseCDP" },
+    dfireToken: { stabilityPool: "stabilityPool" },
+    dfireStaking: { stakingToken: "dfireToken", rewardToken: "dfidToken", stableBaseContract: "stableBaseCDP" },
+    stabilityPool: { stakingToken: "dfidToken", stableBaseCDP: "stableBaseCDP", sbrToken: "dfireToken" },
+    stableBaseCDP: {
+        sbdToken: "dfidToken",
+        priceOracle: "mockPriceOracle",
+        stabilityPool: "stabilityPool",
+        dfireTokenStaking: "dfireStaking",
+        safesOrderedForLiquidation: "safesOrderedForLiquidation",
+        safesOrderedForRedemption: "safesOrderedForRedemption",
+    },
+    safesOrderedForLiquidation: { stableBaseCDP: "stableBaseCDP" },
+    safesOrderedForRedemption: { stableBaseCDP: "stableBaseCDP" },
+    mockPriceOracle: {},
+};
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Reads the owner and the link getters of a contract.
+ * A read that fails falls back to the zero address, like the other snapshot functions.
+ * @param key - The deployContracts key of the contract, which selects its link getters.
+ */
+export async function takeContractWiring(contract: ethers.Contract, key: string): Promise<ContractWiring> {
+    const getters = Object.keys(CONTRACT_LINKS[key] ?? {}).filter(getter => contract.interface.hasFunction(getter));
+    // Issue every read up front so a batching contract wrapper can combine them
+    const ownerRead = contract.owner();
+    const linkReads = getters.map(getter => contract[getter]() as Promise<any>);
+
+    const wiring: ContractWiring = { owner: ethers.ZeroAddress, links: {} };
+    try {
+        wiring.owner = await ownerRead;
+    } catch (error) {
+        console.error(`Error fetching the owner of ${key}: ${errorMessage(error)}`);
+    }
+    for (const [i, getter] of getters.entries()) {
+        try {
+            wiring.links[getter] = await linkReads[i];
+        } catch (error) {
+            console.error(`Error fetching ${key}.${getter}: ${errorMessage(error)}`);
+            wiring.links[getter] = ethers.ZeroAddress;
+        }
+    }
+    return wiring;
+}
+
+/**
+ * Adds the contract's wiring to what a snapshotter takes. The wiring is read again on every refresh,
+ * because setAddresses and ownership changes need not emit a log the refresh would see.
+ */
+export function withWiring<T>(key: string, snapshotter: ContractSnapshotter<T>): ContractSnapshotter<Wired<T>> {
+    return {
+        dependencies: snapshotter.dependencies,
+        identifiers: snapshotter.identifiers,
+        take: async (contract, context) => {
+            const [snapshot, wiring] = await Promise.all([snapshotter.take(contract, context), takeContractWiring(contract, key)]);
+            return { ...snapshot, wiring };
+        },
+        refresh: async (contract, previous, touched, context) => {
+            const refreshed = snapshotter.refresh
+                ? snapshotter.refresh(contract, previous, touched, context)
+                : touched.contracts.has(key) ? snapshotter.take(contract, context) : Promise.resolve(previous);
+            const [snapshot, wiring] = await Promise.all([refreshed, takeContractWiring(contract, key)]);
+            return { ...snapshot, wiring };
+        },
+    };
+}
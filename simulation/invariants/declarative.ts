@@ -0,0 +1,91 @@
+import * as fs from "fs";
+import { ContractSnapshot } from "../contracts/snapshot";
+import { Invariant, InvariantCadence } from "./engine";
+import { evaluateExpression, parseExpression, referencedNames } from "./expression";
+
+/**
+ * An invariant declared in the invariant definitions file rather than in code.
+ */
+export interface InvariantDefinition {
+    name: string;
+    description?: string;
+    /** "fail" stops the run when the invariant is violated; "warn" only reports it. */
+    severity: "fail" | "warn";
+    /** Defaults to "step". */
+    cadence?: InvariantCadence;
+    /**
+     * A boolean expression, in the language of ./expression, that holds when the invariant does.
+     * It reads each contract's snapshot by its ContractSnapshot key, `accounts` (ETH balances),
+     * `block` (the pinned block) and `step`.
+     */
+    expression: string;
+}
+
+// Names the expression scope provides besides the contract snapshots
+const CONTEXT_NAMES = new Set(["accounts", "block", "step"]);
+
+function validateDefinition(definition: InvariantDefinition, index: number) {
+    const label = `Invariant definition ${typeof definition.name === "string" ? definition.name : `#${index}`}`;
+    if (typeof definition.name !== "string" || definition.name.length === 0) {
+        throw new Error(`${label} has no name`);
+    }
+    if (definition.severity !== "fail" && definition.severity !== "warn") {
+        throw new Error(`${label} has severity ${JSON.stringify(definition.severity)}; expected "fail" or "warn"`);
+    }
+    const cadence = definition.cadence;
+    if (cadence !== undefined && cadence !== "step" && cadence !== "end" && typeof cadence?.everySteps !== "number") {
+        throw new Error(`${label} has cadence ${JSON.stringify(cadence)}; expected "step", "end" or { "everySteps": N }`);
+    }
+    if (typeof definition.expression !== "string") {
+        throw new Error(`${label} has no expression`);
+    }
+}
+
+/**
+ * Reads invariant definitions from a JSON file holding an array of InvariantDefinition.
+ * @param file - The path of the file, relative to the working directory.
+ * @throws Error if the file cannot be read or a definition is malformed.
+ */
+export function loadInvariantDefinitions(file: string): InvariantDefinition[] {
+    const definitions = JSON.parse(fs.readFileSync(file, "utf8"));
+    if (!Array.isArray(definitions)) {
+        throw new Error(`${file} must hold an array of invariant definitions`);
+    }
+    definitions.forEach(validateDefinition);
+    return definitions;
+}
+
+/**
+ * Turns a definition into an invariant. The expression is parsed here, so a syntax error
+ * fails before the run starts; it is skipped while a contract it reads is not snapshotted.
+ * @throws Error if the expression does not parse.
+ */
+export function createDeclarativeInvariant(definition: InvariantDefinition): Invariant {
+    let expression;
+    try {
+        expression = parseExpression(definition.expression);
+    } catch (error) {
+        throw new Error(`Invariant ${definition.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const contracts = [...referencedNames(expression)].filter((name) => !CONTEXT_NAMES.has(name)) as (keyof ContractSnapshot)[];
+
+    return {
+        name: definition.name,
+        description: definition.description ?? definition.expression,
+        contracts,
+        fatal: definition.severity === "fail",
+        cadence: definition.cadence,
+        check: ({ step, snapshot }) => {
+            const holds = evaluateExpression(expression, {
+                ...snapshot.contractSnapshot,
+                accounts: snapshot.accountSnapshot,
+                block: snapshot.block,
+                step,
+            });
+            if (typeof holds !== "boolean") {
+                throw new Error(`${definition.expression} evaluated to a ${typeof holds}, not a boolean`);
+            }
+            return holds ? [] : [`${definition.expression} does not hold`];
+        },
+    };
+}
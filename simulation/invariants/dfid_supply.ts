@@ -0,0 +1,175 @@
+import { ethers } from "ethers";
+import { Invariant, InvariantContext } from "./engine";
+import { DecodedEvent, eventsByTransaction } from "./events";
+
+/**
+ * Why DFID was minted or burned. Mints for borrows and burns for repayments, redemptions and
+ * stability pool liquidations move with CDP debt; fee mints and refund burns do not.
+ */
+export type DfidSupplyCause = "borrow" | "fee" | "refund" | "repayment" | "redemption" | "liquidation" | "unexplained";
+
+export interface DfidSupplyEntry {
+    step: number;
+    transactionHash: string;
+    kind: "mint" | "burn";
+    cause: DfidSupplyCause;
+    account: string;
+    amount: bigint;
+}
+
+function hasEvent(transaction: DecodedEvent[], contract: string, ...names: string[]): boolean {
+    return transaction.some((event) => event.contract === contract && names.includes(event.name));
+}
+
+/**
+ * Every DFID mint and burn of the run, each attributed to a cause from the events of its transaction.
+ */
+export class DfidSupplyLedger {
+    readonly entries: DfidSupplyEntry[] = [];
+    private cdpAddress: string;
+    private stabilityPoolAddress: string;
+
+    /**
+     * @param contracts - The deployed contracts; the CDP and stability pool addresses tell fee mints and liquidation burns apart.
+     */
+    constructor(contracts: Record<string, ethers.Contract>) {
+        this.cdpAddress = contracts.stableBaseCDP.target.toString().toLowerCase();
+        this.stabilityPoolAddress = contracts.stabilityPool.target.toString().toLowerCase();
+    }
+
+    /**
+     * Adds the DFID mints and burns among the events of one step.
+     * @returns The entries added.
+     */
+    record(step: number, events: readonly DecodedEvent[]): DfidSupplyEntry[] {
+        const added: DfidSupplyEntry[] = [];
+        for (const [transactionHash, transaction] of eventsByTransaction(events)) {
+            for (const event of transaction) {
+                if (event.contract !== "dfidToken" || event.name !== "Transfer") {
+                    continue;
+                }
+                const from = String(event.args.from).toLowerCase();
+                const to = String(event.args.to).toLowerCase();
+                const amount = BigInt(event.args.value);
+                if (from === ethers.ZeroAddress) {
+                    added.push({ step, transactionHash, kind: "mint", cause: this.mintCause(transaction, to), account: to, amount });
+                } else if (to === ethers.ZeroAddress) {
+                    added.push({ step, transactionHash, kind: "burn", cause: this.burnCause(transaction, from), account: from, amount });
+                }
+            }
+        }
+        this.entries.push(...added);
+        return added;
+    }
+
+    /**
+     * Net supply change per cause over the whole run; burns count as negative.
+     */
+    totals(): Record<DfidSupplyCause, bigint> {
+        const totals: Record<DfidSupplyCause, bigint> = {
+            borrow: 0n, fee: 0n, refund: 0n, repayment: 0n, redemption: 0n, liquidation: 0n, unexplained: 0n,
+        };
+        for (const entry of this.entries) {
+            totals[entry.cause] += entry.kind === "mint" ? entry.amount : -entry.amount;
+        }
+        return totals;
+    }
+
+    /** Fees minted to the CDP less the refunds burned from it. */
+    accountedFees(): bigint {
+        const totals = this.totals();
+        return totals.fee + totals.refund;
+    }
+
+    /** Every mint less every burn. */
+    netSupplyChange(): bigint {
+        return Object.values(this.totals()).reduce((sum, amount) => sum + amount, 0n);
+    }
+
+    /** Every burn. */
+    burned(): bigint {
+        return this.entries.filter((entry) => entry.kind === "burn").reduce((sum, entry) => sum + entry.amount, 0n);
+    }
+
+    private mintCause(transaction: DecodedEvent[], to: string): DfidSupplyCause {
+        if (to === this.cdpAddress && hasEvent(transaction, "stableBaseCDP", "FeeDistributed")) {
+            return "fee";
+        }
+        if (hasEvent(transaction, "stableBaseCDP", "Borrowed")) {
+            return "borrow";
+        }
+        return "unexplained";
+    }
+
+    private burnCause(transaction: DecodedEvent[], from: string): DfidSupplyCause {
+        if (from === this.cdpAddress && hasEvent(transaction, "stableBaseCDP", "FeeRefund")) {
+            return "refund";
+        }
+        if (from === this.stabilityPoolAddress && hasEvent(transaction, "stableBaseCDP", "LiquidatedUsingStabilityPool")) {
+            return "liquidation";
+        }
+        if (hasEvent(transaction, "stableBaseCDP", "Repaid")) {
+            return "repayment";
+        }
+        if (hasEvent(transaction, "stableBaseCDP", "Redeemed", "RedeemedBatch")) {
+            return "redemption";
+        }
+        return "unexplained";
+    }
+}
+
+function describeEntries(entries: DfidSupplyEntry[]): string[] {
+    return entries.map((entry) => `  ${entry.kind} of ${entry.amount} (${entry.cause}) for ${entry.account} in ${entry.transactionHash}`);
+}
+
+/**
+ * Reconciles DFID supply with CDP debt using a ledger of every mint and burn.
+ * Supply must equal outstanding debt plus the fees accounted by the ledger, offset by whatever
+ * the two differed by when the run started. Only the step whose transactions moved the
+ * difference is reported, so each unexplained amount is flagged once, with its transactions.
+ * @param ledger - Attributes each mint and burn to a cause; its totals() break the supply change of the run down by cause.
+ */
+export function createDfidSupplyInvariant(ledger: DfidSupplyLedger): Invariant {
+    let openingSupply = 0n;
+    let openingBurned = 0n;
+    let unexplainedSupply: bigint | undefined;
+
+    return {
+        name: "dfid-supply-ledger",
+        description: "DFID supply equals outstanding CDP debt plus accounted fees, and every mint and burn has a cause",
+        contracts: ["dfidToken", "stableBaseCDP"],
+        check: ({ step, snapshot, events }: InvariantContext) => {
+            const token = snapshot.contractSnapshot.dfidToken;
+            const cdp = snapshot.contractSnapshot.stableBaseCDP;
+            const added = ledger.record(step, events);
+            if (unexplainedSupply === undefined) {
+                openingSupply = token.tokenTotalSupply - ledger.netSupplyChange();
+                openingBurned = token.totalTokensBurned - ledger.burned();
+            }
+
+            const violations: string[] = [];
+            const unattributed = added.filter((entry) => entry.cause === "unexplained");
+            if (unattributed.length > 0) {
+                violations.push("DFID moved without a known cause:", ...describeEntries(unattributed));
+            }
+            const ledgerSupply = openingSupply + ledger.netSupplyChange();
+            if (token.tokenTotalSupply !== ledgerSupply) {
+                violations.push(`tokenTotalSupply is ${token.tokenTotalSupply} but the ledger's mints and burns add up to ${ledgerSupply}`);
+            }
+            const ledgerBurned = openingBurned + ledger.burned();
+            if (token.totalTokensBurned !== ledgerBurned) {
+                violations.push(`totalTokensBurned is ${token.totalTokensBurned} but the ledger's burns add up to ${ledgerBurned}`);
+            }
+
+            const unexplained = token.tokenTotalSupply - cdp.totalDebt - ledger.accountedFees();
+            if (unexplainedSupply !== undefined && unexplained !== unexplainedSupply) {
+                violations.push(
+                    `Supply not backed by debt or fees moved by ${unexplained - unexplainedSupply} (supply ${token.tokenTotalSupply}, debt ${cdp.totalDebt}, fees ${ledger.accountedFees()}), in:`,
+                    ...(added.length > 0 ? describeEntries(added) : ["  no mint or burn this step"])
+                );
+            }
+            unexplainedSupply = unexplained;
+            return violations;
+        },
+    };
+}
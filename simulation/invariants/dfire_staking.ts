@@ -0,0 +1,145 @@
+import { Invariant, InvariantContext, RecordedSteps } from "./engine";
+import { DecodedEvent, eventsByTransaction } from "./events";
+
+const PRECISION = 10n ** 18n;
+
+/**
+ * Run-wide totals of what DFIREStaking was given to distribute and what its stakers took out.
+ */
+export class DfireStakingRewardTracker {
+    /** DFID fees added through RewardAdded. */
+    addedReward = 0n;
+    /** ETH collateral added through CollateralRewardAdded. */
+    addedCollateral = 0n;
+    claimedReward = 0n;
+    claimedCollateral = 0n;
+    /** Reward distributions per step, which bound the rounding each step may lose. */
+    readonly distributions = new Map<number, number>();
+    /** Transactions whose RewardAdded differs from the sbrStakersFee of their FeeDistributed. */
+    readonly feeMismatches: string[] = [];
+    private recordedSteps = new RecordedSteps();
+
+    /**
+     * Adds the fees, collateral and claims of one step, transaction by transaction so that each
+     * RewardAdded can be held against the FeeDistributed of the same transaction.
+     * Both DFIREStaking invariants call it; the second call for a step does nothing.
+     */
+    record(step: number, events: readonly DecodedEvent[]) {
+        if (!this.recordedSteps.add(step)) {
+            return;
+        }
+        let distributions = 0;
+        for (const [transactionHash, transaction] of eventsByTransaction(events)) {
+            let rewardAdded: bigint | undefined;
+            let sbrStakersFee: bigint | undefined;
+            for (const event of transaction) {
+                if (event.contract === "stableBaseCDP" && event.name === "FeeDistributed") {
+                    sbrStakersFee = BigInt(event.args.sbrStakersFee);
+                }
+                if (event.contract !== "dfireStaking") {
+                    continue;
+                }
+                if (event.name === "RewardAdded") {
+                    rewardAdded = (rewardAdded ?? 0n) + BigInt(event.args.rewardAmount);
+                    distributions++;
+                } else if (event.name === "CollateralRewardAdded") {
+                    // The event's only argument is the amount added
+                    this.addedCollateral += BigInt(event.args[0]);
+                    distributions++;
+                } else if (event.name === "Claimed") {
+                    this.claimedReward += BigInt(event.args.rewardAmount);
+                    this.claimedCollateral += BigInt(event.args.collateralReward);
+                }
+            }
+            if (rewardAdded !== undefined) {
+                this.addedReward += rewardAdded;
+                if (sbrStakersFee !== undefined && rewardAdded !== sbrStakersFee) {
+                    this.feeMismatches.push(`${transactionHash}: RewardAdded ${rewardAdded}, FeeDistributed.sbrStakersFee ${sbrStakersFee}`);
+                }
+            }
+        }
+        this.distributions.set(step, distributions);
+    }
+}
+
+function pendingTotals(context: InvariantContext): { reward: bigint; collateral: bigint; stakers: bigint } {
+    let reward = 0n;
+    let collateral = 0n;
+    let stakers = 0n;
+    for (const pending of Object.values(context.snapshot.contractSnapshot.dfireStaking.userPendingRewards)) {
+        reward += pending.pendingRewardAmount;
+        collateral += pending.pendingCollateralReward;
+        stakers++;
+    }
+    return { reward, collateral, stakers };
+}
+
+/**
+ * DFIREStaking reward conservation: what stakers claimed plus what they are still owed never
+ * exceeds what the pool was given, which fails the run, and the part lost to rounding only
+ * grows by dust, which is reported. Rewards already pending when the run starts count as given.
+ * @param tracker - Sums what DFIREStaking was given and paid out, and counts its distributions per step for the drift bound.
+ */
+export function createDfireStakingInvariants(tracker: DfireStakingRewardTracker): Invariant[] {
+    let openingReward = 0n;
+    let openingCollateral = 0n;
+    let previousDrift: { reward: bigint; collateral: bigint } | undefined;
+    let reportedMismatches = 0;
+
+    return [
+        {
+            name: "dfire-staking-no-over-distribution",
+            description: "DFIREStaking never hands out or owes more DFID and ETH than it was given",
+            contracts: ["dfireStaking"],
+            fatal: true,
+            check: (context) => {
+                tracker.record(context.step, context.events);
+                const pending = pendingTotals(context);
+                if (context.step === 0) {
+                    openingReward = pending.reward;
+                    openingCollateral = pending.collateral;
+                }
+                const violations: string[] = [];
+                const givenReward = openingReward + tracker.addedReward;
+                if (tracker.claimedReward + pending.reward > givenReward) {
+                    violations.push(`stakers claimed ${tracker.claimedReward} and are owed ${pending.reward} DFID, but only ${givenReward} was added`);
+                }
+                const givenCollateral = openingCollateral + tracker.addedCollateral;
+                if (tracker.claimedCollateral + pending.collateral > givenCollateral) {
+                    violations.push(`stakers claimed ${tracker.claimedCollateral} and are owed ${pending.collateral} wei, but only ${givenCollateral} was added`);
+                }
+                return violations;
+            },
+        },
+        {
+            name: "dfire-staking-rounding-drift",
+            description: "DFIREStaking rewards lost to rounding grow by no more than dust per distribution, and match the fees sent",
+            contracts: ["dfireStaking"],
+            check: (context) => {
+                tracker.record(context.step, context.events);
+                const pending = pendingTotals(context);
+                const drift = {
+                    reward: openingReward + tracker.addedReward - tracker.claimedReward - pending.reward,
+                    collateral: openingCollateral + tracker.addedCollateral - tracker.claimedCollateral - pending.collateral,
+                };
+                const violations = tracker.feeMismatches.slice(reportedMismatches).map((mismatch) => `fee sent differs from fee added in ${mismatch}`);
+                reportedMismatches = tracker.feeMismatches.length;
+                if (previousDrift) {
+                    // Each distribution truncates the per-token increase, losing under totalStake / PRECISION,
+                    // and each staker's share is rounded down by under a wei
+                    const totalStake = context.snapshot.contractSnapshot.dfireStaking.totalStake;
+                    const distributions = BigInt(tracker.distributions.get(context.step) ?? 0);
+                    const dust = distributions * (totalStake / PRECISION + 1n) + pending.stakers;
+                    for (const field of ["reward", "collateral"] as const) {
+                        const growth = drift[field] - previousDrift[field];
+                        if (growth > dust) {
+                            violations.push(`${field} drift grew by ${growth} to ${drift[field]}, above the ${dust} rounding allows`);
+                        }
+                    }
+                }
+                previousDrift = drift;
+                return violations;
+            },
+        },
+    ];
+}
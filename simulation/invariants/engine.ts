@@ -0,0 +1,249 @@
+import { Snapshot } from "@svylabs/ilumina";
+import { ContractSnapshot, BlockPinnedSnapshot } from "../contracts/snapshot";
+import { DecodedEvent } from "./events";
+import { StepTransaction } from "./transactions";
+
+/**
+ * A snapshot with its contract state typed.
+ */
+export interface InvariantSnapshot extends BlockPinnedSnapshot {
+    contractSnapshot: ContractSnapshot;
+}
+
+/**
+ * What happened on chain between two snapshots.
+ */
+export interface StepActivity {
+    /** The events mined since the previous snapshot, in order. */
+    events: DecodedEvent[];
+    /** The transactions mined since the previous snapshot, in order. */
+    transactions: StepTransaction[];
+}
+
+/**
+ * What an invariant is checked against: the snapshot after a step, the one before it
+ * and what was mined in between.
+ */
+export interface InvariantContext extends StepActivity {
+    /** The number of snapshots evaluated before this one; step 0 is the state the run starts from. */
+    step: number;
+    snapshot: InvariantSnapshot;
+    /** The snapshot of the previous step; unset at step 0. */
+    previousSnapshot?: InvariantSnapshot;
+}
+
+/**
+ * When an invariant is checked: after every step (the default), after every N steps
+ * counting from step 0, or once against the last snapshot when the run ends.
+ */
+export type InvariantCadence = "step" | { everySteps: number } | "end";
+
+/**
+ * A property of the protocol that must hold after every step, whichever action ran.
+ */
+export interface Invariant {
+    name: string;
+    description: string;
+    /** ContractSnapshot keys the invariant reads; it is skipped while one of them is not snapshotted. */
+    contracts: (keyof ContractSnapshot)[];
+    /** When set, a violation fails the run instead of only being reported. */
+    fatal?: boolean;
+    cadence?: InvariantCadence;
+    /**
+     * @returns One message per violation found; empty when the invariant holds.
+     */
+    check(context: InvariantContext): string[];
+}
+
+/**
+ * The first step at which an invariant did not hold.
+ */
+export interface InvariantBreak {
+    step: number;
+    block: bigint;
+    violations: string[];
+}
+
+/**
+ * How an invariant has fared over the run so far.
+ */
+export interface InvariantStatus {
+    name: string;
+    description: string;
+    /** Steps the invariant was checked at. */
+    checkedSteps: number;
+    /** Steps at which it was violated. */
+    brokenSteps: number;
+    firstBreak?: InvariantBreak;
+}
+
+/**
+ * The outcome of checking one invariant at one step.
+ */
+export interface InvariantResult {
+    name: string;
+    step: number;
+    /** Unset when the invariant was skipped: it was not due, or a contract it reads was not snapshotted. */
+    violations?: string[];
+}
+
+/**
+ * The steps a tracker has taken in. Several invariants may share a tracker and each records the step
+ * it is checked at, and the end-of-run checks see the last step again, so a step must be applied once.
+ */
+export class RecordedSteps {
+    private steps = new Set<number>();
+
+    /** Whether no step has been recorded yet. */
+    get empty(): boolean {
+        return this.steps.size === 0;
+    }
+
+    /**
+     * Marks a step as recorded.
+     * @returns False if it already was, in which case its events must not be applied again.
+     */
+    add(step: number): boolean {
+        if (this.steps.has(step)) {
+            return false;
+        }
+        this.steps.add(step);
+        return true;
+    }
+}
+
+/**
+ * Checks a set of invariants against each snapshot of a run and remembers,
+ * per invariant, the step that first broke it.
+ */
+export class InvariantEngine {
+    private invariants: Invariant[] = [];
+    private statusByName = new Map<string, InvariantStatus>();
+    private step = 0;
+    private previousSnapshot?: InvariantSnapshot;
+    private lastContext?: InvariantContext;
+
+    register(...invariants: Invariant[]): this {
+        for (const invariant of invariants) {
+            if (this.statusByName.has(invariant.name)) {
+                throw new Error(`An invariant named ${invariant.name} is already registered`);
+            }
+            const cadence = invariant.cadence;
+            if (typeof cadence === "object" && (!Number.isInteger(cadence.everySteps) || cadence.everySteps < 1)) {
+                throw new Error(`Invariant ${invariant.name} must be checked every whole number of steps, not ${cadence.everySteps}`);
+            }
+            this.invariants.push(invariant);
+            this.statusByName.set(invariant.name, {
+                name: invariant.name,
+                description: invariant.description,
+                checkedSteps: 0,
+                brokenSteps: 0,
+            });
+        }
+        return this;
+    }
+
+    /**
+     * Checks every invariant due at the next step against the snapshot taken after it.
+     * A check that throws counts as a violation carrying the error message.
+     * @param snapshot - The snapshot taken after the step; the first one evaluated is step 0.
+     * @param activity - What was mined since the previous snapshot; nothing at step 0.
+     * @returns One result per registered invariant.
+     * @throws Error once every invariant is checked, if a fatal one was violated.
+     */
+    evaluate(snapshot: Snapshot, activity: StepActivity = { events: [], transactions: [] }): InvariantResult[] {
+        const context: InvariantContext = {
+            ...activity,
+            step: this.step,
+            snapshot: snapshot as InvariantSnapshot,
+            previousSnapshot: this.previousSnapshot,
+        };
+        const results = this.invariants.map((invariant) =>
+            isDue(invariant.cadence, context.step) ? this.check(invariant, context) : { name: invariant.name, step: context.step });
+        this.previousSnapshot = context.snapshot;
+        this.lastContext = context;
+        this.step++;
+        this.throwIfFatal(results, context.step);
+        return results;
+    }
+
+    /**
+     * Checks the invariants evaluated at the end of the run against the last snapshot,
+     * with the activity of the last step. Does nothing if no snapshot was evaluated.
+     * @returns One result per registered invariant; only end-of-run ones are checked.
+     * @throws Error once every invariant is checked, if a fatal one was violated.
+     */
+    finish(): InvariantResult[] {
+        const context = this.lastContext;
+        if (!context) {
+            return [];
+        }
+        const results = this.invariants.map((invariant) =>
+            invariant.cadence === "end" ? this.check(invariant, context) : { name: invariant.name, step: context.step });
+        this.throwIfFatal(results, context.step);
+        return results;
+    }
+
+    private check(invariant: Invariant, context: InvariantContext): InvariantResult {
+        const contractSnapshot = context.snapshot.contractSnapshot as unknown as Record<string, unknown>;
+        if (invariant.contracts.some((key) => contractSnapshot[key] === undefined)) {
+            return { name: invariant.name, step: context.step };
+        }
+        let violations: string[];
+        try {
+            violations = invariant.check(context);
+        } catch (error) {
+            violations = [`check failed: ${error instanceof Error ? error.message : String(error)}`];
+        }
+        const status = this.statusByName.get(invariant.name)!;
+        status.checkedSteps++;
+        if (violations.length > 0) {
+            status.brokenSteps++;
+            if (!status.firstBreak) {
+                status.firstBreak = { step: context.step, block: context.snapshot.block.number, violations };
+                console.error(`Invariant ${invariant.name} broken at step ${context.step} (block ${context.snapshot.block.number}):\n${violations.map((violation) => `  ${violation}`).join("\n")}`);
+            }
+        }
+        return { name: invariant.name, step: context.step, violations };
+    }
+
+    private throwIfFatal(results: InvariantResult[], step: number) {
+        const fatal = results.filter((result, i) => this.invariants[i].fatal && result.violations && result.violations.length > 0);
+        if (fatal.length > 0) {
+            throw new Error(`Fatal invariant violated at step ${step}:\n${fatal
+                .map((result) => `${result.name}:\n${result.violations!.map((violation) => `  ${violation}`).join("\n")}`)
+                .join("\n")}`);
+        }
+    }
+
+    /**
+     * The status of every invariant, in registration order.
+     */
+    statuses(): InvariantStatus[] {
+        return this.invariants.map((invariant) => ({ ...this.statusByName.get(invariant.name)! }));
+    }
+}
+
+function isDue(cadence: InvariantCadence | undefined, step: number): boolean {
+    if (cadence === undefined || cadence === "step") {
+        return true;
+    }
+    return cadence !== "end" && step % cadence.everySteps === 0;
+}
+
+/**
+ * Formats statuses one invariant per line, followed by the violations that first broke it.
+ */
+export function formatInvariantReport(statuses: InvariantStatus[]): string {
+    const broken = statuses.filter((status) => status.firstBreak).length;
+    const lines = [`Invariants: ${statuses.length - broken} held, ${broken} broken`];
+    for (const status of statuses) {
+        if (!status.firstBreak) {
+            lines.push(`  [held]   ${status.name} (${status.checkedSteps} steps)`);
+            continue;
+        }
+        lines.push(`  [broken] ${status.name}: first at step ${status.firstBreak.step} (block ${status.firstBreak.block}), broken at ${status.brokenSteps} of ${status.checkedSteps} steps`);
+        lines.push(...status.firstBreak.violations.map((violation) => `      ${violation}`));
+    }
+    return lines.join("\n");
+}
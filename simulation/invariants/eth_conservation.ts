@@ -0,0 +1,150 @@
+import { Invariant, InvariantContext } from "./engine";
+import { StepTransaction } from "./transactions";
+
+/**
+ * What one transaction did to the ETH held by the tracked accounts.
+ */
+export interface EthLedgerEntry {
+    step: number;
+    transactionHash: string;
+    from: string;
+    /** Gas paid by the sender. */
+    fee: bigint;
+    /** The part of the fee that went back to a tracked account because it was the coinbase. */
+    feeToTrackedCoinbase: bigint;
+    /** ETH sent by the transaction from a tracked account to an untracked one, or the reverse (negative). */
+    valueOut: bigint;
+}
+
+/**
+ * A balance set outside any transaction, such as by hardhat_setBalance.
+ */
+export interface BalanceOverride {
+    address: string;
+    previousBalance: bigint;
+    balance: bigint;
+}
+
+/**
+ * Where an action that sets a balance outside any transaction reports it.
+ */
+export interface BalanceOverrideSink {
+    /**
+     * Records a balance set outside any transaction so that eth-conservation does not count
+     * the ETH it created or destroyed as lost. Call it right after the balance is set.
+     */
+    recordBalanceOverride(override: BalanceOverride): void;
+}
+
+/**
+ * Every transaction of the run, with the ETH it took out of the tracked accounts.
+ * Tracked accounts are those whose balances the snapshots hold: every actor and every deployed contract.
+ */
+export class EthLedger implements BalanceOverrideSink {
+    readonly entries: EthLedgerEntry[] = [];
+    readonly overrides: (BalanceOverride & { step: number })[] = [];
+    // Overrides made since the last step was checked; the next check takes them
+    private pendingOverrides: BalanceOverride[] = [];
+
+    recordBalanceOverride(override: BalanceOverride) {
+        this.pendingOverrides.push({ ...override, address: override.address.toLowerCase() });
+    }
+
+    /**
+     * Adds the transactions of one step.
+     * @param tracked - The lowercased addresses whose balances are snapshotted.
+     * @returns The entries added.
+     */
+    record(step: number, transactions: readonly StepTransaction[], tracked: ReadonlySet<string>): EthLedgerEntry[] {
+        const added = transactions.map((transaction): EthLedgerEntry => {
+            const fromTracked = tracked.has(transaction.from);
+            const toTracked = transaction.to !== null && tracked.has(transaction.to);
+            let valueOut = 0n;
+            if (fromTracked && !toTracked) {
+                valueOut = transaction.value;
+            } else if (!fromTracked && toTracked) {
+                valueOut = -transaction.value;
+            }
+            return {
+                step,
+                transactionHash: transaction.hash,
+                from: transaction.from,
+                fee: fromTracked ? transaction.fee : 0n,
+                feeToTrackedCoinbase: tracked.has(transaction.coinbase) ? transaction.priorityFee : 0n,
+                valueOut,
+            };
+        });
+        this.entries.push(...added);
+        return added;
+    }
+
+    /**
+     * Takes the balance overrides recorded since the previous step.
+     * @returns The ETH they added to the tracked accounts; negative if they removed some.
+     */
+    recordOverrides(step: number, tracked: ReadonlySet<string>): bigint {
+        const taken = this.pendingOverrides.splice(0).filter((override) => tracked.has(override.address));
+        this.overrides.push(...taken.map((override) => ({ ...override, step })));
+        return taken.reduce((sum, override) => sum + override.balance - override.previousBalance, 0n);
+    }
+
+    /** Gas paid by tracked accounts over the run. */
+    feesPaid(): bigint {
+        return this.entries.reduce((sum, entry) => sum + entry.fee, 0n);
+    }
+}
+
+/**
+ * How much the tracked accounts should have lost over some entries.
+ */
+function expectedOutflow(entries: readonly EthLedgerEntry[]): bigint {
+    return entries.reduce((sum, entry) => sum + entry.fee - entry.feeToTrackedCoinbase + entry.valueOut, 0n);
+}
+
+function totalBalance(accountSnapshot: Record<string, bigint>, tracked: ReadonlySet<string>): bigint {
+    let total = 0n;
+    for (const [address, balance] of Object.entries(accountSnapshot)) {
+        if (tracked.has(address.toLowerCase())) {
+            total += BigInt(balance);
+        }
+    }
+    return total;
+}
+
+/**
+ * Checks that the ETH held by actors and contracts only changes by the gas they pay, the
+ * ETH their transactions send out and the balances recorded as overrides on the ledger,
+ * so ETH moved by internal calls must stay among them.
+ * A mismatch names the step's transactions and the balances that moved.
+ * @param ledger - Takes the fees, transfers out and balance overrides of each step; feesPaid() sums the gas of the run.
+ */
+export function createEthConservationInvariant(ledger: EthLedger): Invariant {
+    return {
+        name: "eth-conservation",
+        description: "ETH held by actors and contracts only changes by the gas they pay and the ETH they send out",
+        contracts: [],
+        check: ({ step, snapshot, previousSnapshot, transactions }: InvariantContext) => {
+            const tracked = new Set(Object.keys(snapshot.accountSnapshot).map((address) => address.toLowerCase()));
+            const added = ledger.record(step, transactions, tracked);
+            const overridden = ledger.recordOverrides(step, tracked);
+            if (!previousSnapshot) {
+                return [];
+            }
+            const previousTotal = totalBalance(previousSnapshot.accountSnapshot, tracked);
+            const total = totalBalance(snapshot.accountSnapshot, tracked);
+            const outflow = expectedOutflow(added) - overridden;
+            if (previousTotal - total === outflow) {
+                return [];
+            }
+
+            const moved = Object.entries(snapshot.accountSnapshot)
+                .map(([address, balance]) => [address, BigInt(balance) - BigInt(previousSnapshot.accountSnapshot[address] ?? 0n)] as const)
+                .filter(([, change]) => change !== 0n);
+            return [
+                `Tracked ETH went from ${previousTotal} to ${total}, but the step's transactions and balance overrides account for a loss of ${outflow} (${previousTotal - total - outflow} unaccounted)`,
+                ...added.map((entry) => `  ${entry.transactionHash} from ${entry.from}: fee ${entry.fee}, back to coinbase ${entry.feeToTrackedCoinbase}, sent out ${entry.valueOut}`),
+                ...moved.map(([address, change]) => `  ${address}: ${change > 0n ? "+" : ""}${change}`),
+            ];
+        },
+    };
+}
@@ -0,0 +1,64 @@
+import { ethers } from "ethers";
+
+/**
+ * A log decoded with the ABI of the deployed contract that emitted it.
+ */
+export interface DecodedEvent {
+    /** The key of the emitting contract, as in deployContracts. */
+    contract: string;
+    name: string;
+    args: ethers.Result;
+    transactionHash: string;
+    blockNumber: number;
+    logIndex: number;
+}
+
+/**
+ * Decodes logs with the ABIs of the deployed contracts, keeping their order.
+ * Logs from addresses that are not deployed contracts, and logs no ABI can decode, are skipped.
+ * @param logs - The logs to decode, e.g. every log mined between two snapshots.
+ * @param contracts - The deployed contracts, keyed as in deployContracts.
+ */
+export function decodeEvents(logs: readonly ethers.Log[], contracts: Record<string, ethers.Contract>): DecodedEvent[] {
+    const keysByAddress = new Map<string, string>();
+    for (const [key, contract] of Object.entries(contracts)) {
+        keysByAddress.set(contract.target.toString().toLowerCase(), key);
+    }
+    const events: DecodedEvent[] = [];
+    for (const log of logs) {
+        const key = keysByAddress.get(log.address.toLowerCase());
+        if (!key) {
+            continue;
+        }
+        let parsed: ethers.LogDescription | null = null;
+        try {
+            parsed = contracts[key].interface.parseLog({ topics: [...log.topics], data: log.data });
+        } catch (error) {
+            console.warn(`Could not decode log ${log.index} of ${key} in block ${log.blockNumber}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        if (parsed) {
+            events.push({
+                contract: key,
+                name: parsed.name,
+                args: parsed.args,
+                transactionHash: log.transactionHash,
+                blockNumber: log.blockNumber,
+                logIndex: log.index,
+            });
+        }
+    }
+    return events;
+}
+
+/**
+ * Groups events by the transaction that emitted them, in the order the transactions were mined.
+ */
+export function eventsByTransaction(events: readonly DecodedEvent[]): Map<string, DecodedEvent[]> {
+    const transactions = new Map<string, DecodedEvent[]>();
+    for (const event of events) {
+        const transaction = transactions.get(event.transactionHash) ?? [];
+        transaction.push(event);
+        transactions.set(event.transactionHash, transaction);
+    }
+    return transactions;
+}
@@ -0,0 +1,410 @@
+/**
+ * A small expression language over snapshot values, evaluated without `eval`.
+ *
+ * - Integers are bigints; `1e18` is shorthand for 10^18. Strings are quoted with `"` or `'`.
+ * - Paths read snapshot values: `stableBaseCDP.totalDebt`, `safesOrderedForLiquidation.nodes[12].value`.
+ *   Reading past a missing value gives undefined; using undefined in an operation is an error,
+ *   unless it is replaced with `??`.
+ * - Operators: `+ - * / %`, `== != < <= > >=`, `&& || !` and `??`.
+ * - Aggregations over records and arrays, where `it` is the element and `key` its record key:
+ *   `sum(collection, expr)`, `count(collection, predicate)`, `all(collection, predicate)`,
+ *   `any(collection, predicate)`, `min(collection, expr)` and `max(collection, expr)`.
+ *   The second argument is optional for `sum`, `min`, `max` (the elements) and `count` (every element).
+ */
+
+type Token =
+    | { kind: "number"; value: bigint; position: number }
+    | { kind: "string"; value: string; position: number }
+    | { kind: "identifier"; value: string; position: number }
+    | { kind: "operator"; value: string; position: number }
+    | { kind: "end"; position: number };
+
+export type ExpressionNode =
+    | { kind: "literal"; value: bigint | string | boolean }
+    | { kind: "name"; name: string }
+    | { kind: "member"; object: ExpressionNode; property: string }
+    | { kind: "index"; object: ExpressionNode; index: ExpressionNode }
+    | { kind: "unary"; operator: string; operand: ExpressionNode }
+    | { kind: "binary"; operator: string; left: ExpressionNode; right: ExpressionNode }
+    | { kind: "call"; name: string; args: ExpressionNode[] };
+
+const OPERATORS = ["??", "&&", "||", "==", "!=", "<=", ">=", "<", ">", "+", "-", "*", "/", "%", "!", "(", ")", "[", "]", ".", ","];
+const AGGREGATIONS = new Set(["sum", "count", "all", "any", "min", "max"]);
+const BINARY_PRECEDENCE: Record<string, number> = {
+    "??": 1,
+    "||": 2,
+    "&&": 3,
+    "==": 4, "!=": 4,
+    "<": 5, "<=": 5, ">": 5, ">=": 5,
+    "+": 6, "-": 6,
+    "*": 7, "/": 7, "%": 7,
+};
+
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < source.length) {
+        const char = source[i];
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+        const number = /^(\d+)(?:e(\d+))?/.exec(source.slice(i));
+        if (number) {
+            const value = BigInt(number[1]) * 10n ** BigInt(number[2] ?? 0);
+            tokens.push({ kind: "number", value, position: i });
+            i += number[0].length;
+            continue;
+        }
+        const identifier = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(source.slice(i));
+        if (identifier) {
+            tokens.push({ kind: "identifier", value: identifier[0], position: i });
+            i += identifier[0].length;
+            continue;
+        }
+        if (char === "\"" || char === "'") {
+            const end = source.indexOf(char, i + 1);
+            if (end < 0) {
+                throw new Error(`Unterminated string at ${i}`);
+            }
+            tokens.push({ kind: "string", value: source.slice(i + 1, end), position: i });
+            i = end + 1;
+            continue;
+        }
+        const operator = OPERATORS.find((candidate) => source.startsWith(candidate, i));
+        if (!operator) {
+            throw new Error(`Unexpected character '${char}' at ${i}`);
+        }
+        tokens.push({ kind: "operator", value: operator, position: i });
+        i += operator.length;
+    }
+    tokens.push({ kind: "end", position: source.length });
+    return tokens;
+}
+
+class Parser {
+    private tokens: Token[];
+    private position = 0;
+
+    constructor(tokens: Token[]) {
+        this.tokens = tokens;
+    }
+
+    parse(): ExpressionNode {
+        const node = this.binary(0);
+        const next = this.peek();
+        if (next.kind !== "end") {
+            throw new Error(`Unexpected ${describeToken(next)} at ${next.position}`);
+        }
+        return node;
+    }
+
+    private peek(): Token {
+        return this.tokens[this.position];
+    }
+
+    private next(): Token {
+        return this.tokens[this.position++];
+    }
+
+    private isOperator(value: string): boolean {
+        const token = this.peek();
+        return token.kind === "operator" && token.value === value;
+    }
+
+    private expect(value: string) {
+        const token = this.next();
+        if (token.kind !== "operator" || token.value !== value) {
+            throw new Error(`Expected '${value}' but found ${describeToken(token)} at ${token.position}`);
+        }
+    }
+
+    private binary(minPrecedence: number): ExpressionNode {
+        let left = this.unary();
+        for (;;) {
+            const token = this.peek();
+            const precedence = token.kind === "operator" ? BINARY_PRECEDENCE[token.value] : undefined;
+            if (precedence === undefined || precedence <= minPrecedence) {
+                return left;
+            }
+            this.next();
+            const right = this.binary(precedence);
+            left = { kind: "binary", operator: (token as { value: string }).value, left, right };
+        }
+    }
+
+    private unary(): ExpressionNode {
+        if (this.isOperator("!") || this.isOperator("-")) {
+            const operator = (this.next() as { value: string }).value;
+            return { kind: "unary", operator, operand: this.unary() };
+        }
+        return this.postfix(this.primary());
+    }
+
+    private postfix(node: ExpressionNode): ExpressionNode {
+        for (;;) {
+            if (this.isOperator(".")) {
+                this.next();
+                const property = this.next();
+                if (property.kind !== "identifier") {
+                    throw new Error(`Expected a field name but found ${describeToken(property)} at ${property.position}`);
+                }
+                node = { kind: "member", object: node, property: property.value };
+            } else if (this.isOperator("[")) {
+                this.next();
+                const index = this.binary(0);
+                this.expect("]");
+                node = { kind: "index", object: node, index };
+            } else {
+                return node;
+            }
+        }
+    }
+
+    private primary(): ExpressionNode {
+        const token = this.next();
+        switch (token.kind) {
+            case "number":
+            case "string":
+                return { kind: "literal", value: token.value };
+            case "identifier":
+                if (token.value === "true" || token.value === "false") {
+                    return { kind: "literal", value: token.value === "true" };
+                }
+                if (this.isOperator("(")) {
+                    return this.call(token.value, token.position);
+                }
+                return { kind: "name", name: token.value };
+            case "operator":
+                if (token.value === "(") {
+                    const node = this.binary(0);
+                    this.expect(")");
+                    return node;
+                }
+        }
+        throw new Error(`Unexpected ${describeToken(token)} at ${token.position}`);
+    }
+
+    private call(name: string, position: number): ExpressionNode {
+        if (!AGGREGATIONS.has(name)) {
+            throw new Error(`Unknown function '${name}' at ${position}`);
+        }
+        this.expect("(");
+        const args: ExpressionNode[] = [this.binary(0)];
+        if (this.isOperator(",")) {
+            this.next();
+            args.push(this.binary(0));
+        }
+        this.expect(")");
+        if (args.length === 1 && (name === "all" || name === "any")) {
+            throw new Error(`${name}() at ${position} needs a predicate`);
+        }
+        return { kind: "call", name, args };
+    }
+}
+
+function describeToken(token: Token): string {
+    return token.kind === "end" ? "end of expression" : `'${token.value}'`;
+}
+
+/**
+ * Parses an expression; syntax errors are thrown here rather than when the expression is evaluated.
+ */
+export function parseExpression(source: string): ExpressionNode {
+    return new Parser(tokenize(source)).parse();
+}
+
+type Value = bigint | string | boolean | object | undefined;
+
+function normalize(value: unknown): Value {
+    if (typeof value === "number" && Number.isInteger(value)) {
+        return BigInt(value);
+    }
+    return value as Value;
+}
+
+function describe(node: ExpressionNode): string {
+    switch (node.kind) {
+        case "literal":
+            return typeof node.value === "string" ? JSON.stringify(node.value) : String(node.value);
+        case "name":
+            return node.name;
+        case "member":
+            return `${describe(node.object)}.${node.property}`;
+        case "index":
+            return `${describe(node.object)}[${describe(node.index)}]`;
+        case "unary":
+            return `${node.operator}${describe(node.operand)}`;
+        case "binary":
+            return `(${describe(node.left)} ${node.operator} ${describe(node.right)})`;
+        case "call":
+            return `${node.name}(${node.args.map(describe).join(", ")})`;
+    }
+}
+
+function expectType<T extends "bigint" | "boolean">(value: Value, type: T, node: ExpressionNode): T extends "bigint" ? bigint : boolean {
+    if (value === undefined) {
+        throw new Error(`${describe(node)} is undefined`);
+    }
+    if (typeof value !== type) {
+        throw new Error(`${describe(node)} is a ${typeof value}, expected a ${type}`);
+    }
+    return value as T extends "bigint" ? bigint : boolean;
+}
+
+function entries(collection: Value, node: ExpressionNode): [string, Value][] {
+    if (Array.isArray(collection)) {
+        return collection.map((element, i) => [String(i), normalize(element)]);
+    }
+    if (typeof collection === "object" && collection !== null) {
+        return Object.entries(collection).map(([key, element]) => [key, normalize(element)]);
+    }
+    throw new Error(`${describe(node)} is not a record or array`);
+}
+
+function evaluateNode(node: ExpressionNode, scope: Record<string, unknown>): Value {
+    switch (node.kind) {
+        case "literal":
+            return node.value;
+        case "name":
+            if (!(node.name in scope)) {
+                throw new Error(`Unknown name '${node.name}'`);
+            }
+            return normalize(scope[node.name]);
+        case "member":
+        case "index": {
+            const object = evaluateNode(node.object, scope);
+            if (object === undefined || object === null) {
+                return undefined;
+            }
+            const key = node.kind === "member" ? node.property : String(evaluateNode(node.index, scope));
+            return typeof object === "object" ? normalize((object as Record<string, unknown>)[key]) : undefined;
+        }
+        case "unary": {
+            const operand = evaluateNode(node.operand, scope);
+            return node.operator === "!" ? !expectType(operand, "boolean", node.operand) : -expectType(operand, "bigint", node.operand);
+        }
+        case "binary":
+            return evaluateBinary(node, scope);
+        case "call":
+            return evaluateAggregation(node, scope);
+    }
+}
+
+function evaluateBinary(node: Extract<ExpressionNode, { kind: "binary" }>, scope: Record<string, unknown>): Value {
+    const left = evaluateNode(node.left, scope);
+    switch (node.operator) {
+        case "??":
+            return left !== undefined ? left : evaluateNode(node.right, scope);
+        case "&&":
+            return expectType(left, "boolean", node.left) && expectType(evaluateNode(node.right, scope), "boolean", node.right);
+        case "||":
+            return expectType(left, "boolean", node.left) || expectType(evaluateNode(node.right, scope), "boolean", node.right);
+    }
+    const right = evaluateNode(node.right, scope);
+    if (node.operator === "==" || node.operator === "!=") {
+        if (left === undefined || right === undefined) {
+            throw new Error(`${describe(left === undefined ? node.left : node.right)} is undefined`);
+        }
+        if (typeof left !== typeof right) {
+            throw new Error(`Cannot compare a ${typeof left} with a ${typeof right} in ${describe(node)}`);
+        }
+        return (left === right) === (node.operator === "==");
+    }
+    const a = expectType(left, "bigint", node.left);
+    const b = expectType(right, "bigint", node.right);
+    switch (node.operator) {
+        case "<": return a < b;
+        case "<=": return a <= b;
+        case ">": return a > b;
+        case ">=": return a >= b;
+        case "+": return a + b;
+        case "-": return a - b;
+        case "*": return a * b;
+    }
+    if (b === 0n) {
+        throw new Error(`Division by zero in ${describe(node)}`);
+    }
+    return node.operator === "/" ? a / b : a % b;
+}
+
+function evaluateAggregation(node: Extract<ExpressionNode, { kind: "call" }>, scope: Record<string, unknown>): Value {
+    const [collectionNode, elementNode] = node.args;
+    const elements = entries(evaluateNode(collectionNode, scope), collectionNode);
+    const each = (key: string, element: Value) =>
+        elementNode ? evaluateNode(elementNode, { ...scope, it: element, key }) : element;
+
+    switch (node.name) {
+        case "count":
+            return BigInt(elements.filter(([key, element]) => !elementNode || expectType(each(key, element), "boolean", elementNode)).length);
+        case "all":
+            return elements.every(([key, element]) => expectType(each(key, element), "boolean", elementNode));
+        case "any":
+            return elements.some(([key, element]) => expectType(each(key, element), "boolean", elementNode));
+    }
+    const values = elements.map(([key, element]) => expectType(each(key, element), "bigint", elementNode ?? collectionNode));
+    if (node.name === "sum") {
+        return values.reduce((total, value) => total + value, 0n);
+    }
+    if (values.length === 0) {
+        return undefined;
+    }
+    return values.reduce((best, value) => (node.name === "min" ? value < best : value > best) ? value : best);
+}
+
+/**
+ * Evaluates a parsed expression.
+ * @param node - The expression, from parseExpression.
+ * @param scope - The names the expression can read, such as each contract's snapshot.
+ * @throws Error if the expression reads an unknown name, uses undefined or mixes types.
+ */
+export function evaluateExpression(node: ExpressionNode, scope: Record<string, unknown>): bigint | string | boolean | object | undefined {
+    return evaluateNode(node, scope);
+}
+
+/**
+ * Formats a parsed expression with explicit parentheses, as used in error messages.
+ */
+export function formatExpression(node: ExpressionNode): string {
+    return describe(node);
+}
+
+/**
+ * The names an expression reads from its scope, leaving out `it` and `key` inside aggregations.
+ */
+export function referencedNames(node: ExpressionNode, bound: ReadonlySet<string> = new Set()): Set<string> {
+    const names = new Set<string>();
+    const visit = (child: ExpressionNode, childBound: ReadonlySet<string>) => {
+        for (const name of referencedNames(child, childBound)) {
+            names.add(name);
+        }
+    };
+    switch (node.kind) {
+        case "name":
+            if (!bound.has(node.name)) {
+                names.add(node.name);
+            }
+            break;
+        case "member":
+            visit(node.object, bound);
+            break;
+        case "index":
+            visit(node.object, bound);
+            visit(node.index, bound);
+            break;
+        case "unary":
+            visit(node.operand, bound);
+            break;
+        case "binary":
+            visit(node.left, bound);
+            visit(node.right, bound);
+            break;
+        case "call":
+            visit(node.args[0], bound);
+            if (node.args[1]) {
+                visit(node.args[1], new Set([...bound, "it", "key"]));
+            }
+            break;
+    }
+    return names;
+}
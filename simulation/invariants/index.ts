@@ -0,0 +1,47 @@
+import { Contract } from "ethers";
+import { InvariantEngine } from "./engine";
+import { stableBaseCDPInvariants } from "./stable_base_cdp";
+import { orderedListInvariants } from "./ordered_list";
+import { DfidSupplyLedger, createDfidSupplyInvariant } from "./dfid_supply";
+import { EthLedger, createEthConservationInvariant } from "./eth_conservation";
+import { StabilityPoolRewardTracker, createStabilityPoolInvariants } from "./stability_pool";
+import { DfireStakingRewardTracker, createDfireStakingInvariants } from "./dfire_staking";
+import { SafeOwnershipTracker, createSafeOwnershipInvariants } from "./safe_ownership";
+import { InvariantDefinition, createDeclarativeInvariant } from "./declarative";
+
+export * from "./engine";
+export * from "./events";
+export * from "./provider";
+export * from "./transactions";
+export { stableBaseCDPInvariants } from "./stable_base_cdp";
+export { orderedListInvariants, walkOrderedListSnapshot } from "./ordered_list";
+export type { OrderedListWalk } from "./ordered_list";
+export { DfidSupplyLedger, createDfidSupplyInvariant } from "./dfid_supply";
+export type { DfidSupplyCause, DfidSupplyEntry } from "./dfid_supply";
+export { EthLedger, createEthConservationInvariant } from "./eth_conservation";
+export type { BalanceOverride, BalanceOverrideSink, EthLedgerEntry } from "./eth_conservation";
+export { StabilityPoolRewardTracker, createStabilityPoolInvariants, effectiveStake, sbrEmissionDue } from "./stability_pool";
+export { DfireStakingRewardTracker, createDfireStakingInvariants } from "./dfire_staking";
+export { SafeOwnershipTracker, createSafeOwnershipInvariants } from "./safe_ownership";
+export { createDeclarativeInvariant, loadInvariantDefinitions } from "./declarative";
+export type { InvariantDefinition } from "./declarative";
+export { evaluateExpression, formatExpression, parseExpression, referencedNames } from "./expression";
+export type { ExpressionNode } from "./expression";
+
+/**
+ * An engine with every protocol invariant registered, followed by the declared ones.
+ * @param contracts - The deployed contracts, keyed as in deployContracts.
+ * @param definitions - Invariants declared in the invariant definitions file.
+ * @param ethLedger - The ledger eth-conservation records into; actions that set balances report their overrides to it.
+ */
+export function createInvariantEngine(contracts: Record<string, Contract>, definitions: InvariantDefinition[] = [], ethLedger = new EthLedger()): InvariantEngine {
+    return new InvariantEngine()
+        .register(...stableBaseCDPInvariants)
+        .register(...orderedListInvariants)
+        .register(createDfidSupplyInvariant(new DfidSupplyLedger(contracts)))
+        .register(createEthConservationInvariant(ethLedger))
+        .register(...createStabilityPoolInvariants(contracts, new StabilityPoolRewardTracker()))
+        .register(...createDfireStakingInvariants(new DfireStakingRewardTracker()))
+        .register(...createSafeOwnershipInvariants(new SafeOwnershipTracker()))
+        .register(...definitions.map(createDeclarativeInvariant));
+}
@@ -0,0 +1,98 @@
+import { Invariant } from "./engine";
+import { OrderedDoublyLinkedListSnapshot, StableBaseCDPSnapshot } from "../contracts/snapshot_interfaces";
+
+/**
+ * What walking an ordered list snapshot from its head found.
+ */
+export interface OrderedListWalk {
+    /** The node IDs reached from the head, in list order, up to the first broken link. */
+    members: bigint[];
+    violations: string[];
+}
+
+/**
+ * Walks a list snapshot from headId and checks its structure: every `next` link is matched by
+ * the `prev` link back, no node is reached twice, the walk ends at tailId, values never decrease
+ * and no node outside the walk still links into the list.
+ * The snapshot must hold every node on the list, as the list snapshotters take it.
+ */
+export function walkOrderedListSnapshot(list: OrderedDoublyLinkedListSnapshot): OrderedListWalk {
+    const members: bigint[] = [];
+    const violations: string[] = [];
+    const visited = new Set<bigint>();
+    let previousId = 0n;
+    let current = list.headId;
+
+    while (current !== 0n) {
+        if (visited.has(current)) {
+            violations.push(`node ${previousId} links back to node ${current}, forming a cycle`);
+            break;
+        }
+        const node = list.nodes[current.toString()];
+        if (!node) {
+            violations.push(`node ${current} is linked from ${previousId === 0n ? "headId" : `node ${previousId}`} but missing from the snapshot`);
+            break;
+        }
+        if (node.prev !== previousId) {
+            violations.push(`node ${current} has prev ${node.prev} but is reached from ${previousId === 0n ? "headId" : `node ${previousId}`}`);
+        }
+        if (previousId !== 0n) {
+            const previousValue = list.nodes[previousId.toString()].value;
+            if (node.value < previousValue) {
+                violations.push(`node ${current} has value ${node.value}, below the ${previousValue} of node ${previousId} before it`);
+            }
+        }
+        visited.add(current);
+        members.push(current);
+        previousId = current;
+        current = node.next;
+    }
+
+    const lastId = members.length > 0 ? members[members.length - 1] : 0n;
+    if (violations.length === 0 && list.tailId !== lastId) {
+        violations.push(`tailId is ${list.tailId} but the walk from headId ends at ${lastId === 0n ? "an empty list" : `node ${lastId}`}`);
+    }
+    for (const [id, node] of Object.entries(list.nodes)) {
+        if (!visited.has(BigInt(id)) && (node.prev !== 0n || node.next !== 0n)) {
+            violations.push(`node ${id} links to prev ${node.prev} and next ${node.next} but is not reachable from headId`);
+        }
+    }
+    return { members, violations };
+}
+
+/**
+ * Compares the members of a list with the safes that have debt.
+ */
+function checkMembership(members: bigint[], cdp: StableBaseCDPSnapshot): string[] {
+    const violations: string[] = [];
+    const memberSet = new Set(members.map((id) => id.toString()));
+    for (const [safeId, safe] of Object.entries(cdp.safeDetails)) {
+        if (safe.borrowedAmount > 0n && !memberSet.has(safeId)) {
+            violations.push(`safe ${safeId} owes ${safe.borrowedAmount} but is not on the list`);
+        }
+    }
+    for (const safeId of memberSet) {
+        const safe = cdp.safeDetails[safeId];
+        if (!safe || safe.borrowedAmount === 0n) {
+            violations.push(`safe ${safeId} is on the list but has no debt`);
+        }
+    }
+    return violations;
+}
+
+function orderedListInvariant(key: "safesOrderedForLiquidation" | "safesOrderedForRedemption"): Invariant {
+    return {
+        name: `${key}-structure`,
+        description: `${key} is a well-formed sorted list holding exactly the safes with debt`,
+        contracts: [key, "stableBaseCDP"],
+        check: ({ snapshot }) => {
+            const walk = walkOrderedListSnapshot(snapshot.contractSnapshot[key]);
+            return [...walk.violations, ...checkMembership(walk.members, snapshot.contractSnapshot.stableBaseCDP)];
+        },
+    };
+}
+
+export const orderedListInvariants: Invariant[] = [
+    orderedListInvariant("safesOrderedForLiquidation"),
+    orderedListInvariant("safesOrderedForRedemption"),
+];
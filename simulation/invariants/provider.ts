@@ -0,0 +1,52 @@
+import { Snapshot, SnapshotProvider } from "@svylabs/ilumina";
+import { Contract } from "ethers";
+import { BlockPinnedSnapshot } from "../contracts/snapshot";
+import { InvariantEngine, StepActivity } from "./engine";
+import { decodeEvents } from "./events";
+import { fetchTransactions } from "./transactions";
+
+/**
+ * Wraps a snapshot provider so that the invariants are checked on every snapshot it takes.
+ * The runner snapshots after each step, so this is where the invariants see every step.
+ */
+export class InvariantCheckingSnapshotProvider implements SnapshotProvider {
+    private provider: SnapshotProvider;
+    private engine: InvariantEngine;
+    private contracts: Record<string, Contract>;
+    private previousBlock?: bigint;
+
+    /**
+     * @param provider - A provider whose snapshots are block pinned, such as ContractSnapshotProvider.
+     * @param engine - The invariants to check.
+     * @param contracts - The deployed contracts, used to fetch each step's transactions and decode its events.
+     */
+    constructor(provider: SnapshotProvider, engine: InvariantEngine, contracts: Record<string, Contract>) {
+        this.provider = provider;
+        this.engine = engine;
+        this.contracts = contracts;
+    }
+
+    async snapshot(): Promise<Snapshot> {
+        const snapshot = await this.provider.snapshot() as BlockPinnedSnapshot;
+        this.engine.evaluate(snapshot, await this.activitySince(snapshot.block.number));
+        this.previousBlock = snapshot.block.number;
+        return snapshot;
+    }
+
+    private async activitySince(blockNumber: bigint): Promise<StepActivity> {
+        if (this.previousBlock === undefined || this.previousBlock >= blockNumber) {
+            return { events: [], transactions: [] };
+        }
+        const provider = this.contracts.multicall?.runner?.provider;
+        if (!provider) {
+            throw new Error("The multicall contract is not connected to a provider");
+        }
+        const fromBlock = Number(this.previousBlock) + 1;
+        const toBlock = Number(blockNumber);
+        const [logs, transactions] = await Promise.all([
+            provider.getLogs({ fromBlock, toBlock }),
+            fetchTransactions(provider, fromBlock, toBlock),
+        ]);
+        return { events: decodeEvents(logs, this.contracts), transactions };
+    }
+}
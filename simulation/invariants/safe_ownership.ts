@@ -0,0 +1,133 @@
+import { ethers } from "ethers";
+import { Invariant, InvariantContext, RecordedSteps } from "./engine";
+import { DecodedEvent } from "./events";
+import { StableBaseCDPSnapshot } from "../contracts/snapshot_interfaces";
+
+/**
+ * The owner of every safe NFT according to the ERC-721 Transfer events of StableBaseCDP.
+ * Safes that exist before the run are taken from the first snapshot recorded.
+ */
+export class SafeOwnershipTracker {
+    /** Lowercased owner of each live safe, by safe ID. */
+    readonly owners = new Map<string, string>();
+    /** Safes whose last Transfer went to the zero address. */
+    readonly burned = new Set<string>();
+    private recordedSteps = new RecordedSteps();
+
+    /**
+     * Moves each safe to the recipient of its Transfers in one step, or marks it burned.
+     * Every safe-ownership invariant calls it with the step it checks.
+     * @param cdp - The snapshot after the step; the first step recorded seeds the owners from it.
+     */
+    record(step: number, events: readonly DecodedEvent[], cdp: StableBaseCDPSnapshot) {
+        const first = this.recordedSteps.empty;
+        if (!this.recordedSteps.add(step)) {
+            return;
+        }
+        if (first) {
+            for (const [safeId, owner] of Object.entries(cdp.safeOwner)) {
+                if (owner !== ethers.ZeroAddress) {
+                    this.owners.set(safeId, owner.toLowerCase());
+                }
+            }
+        }
+        for (const event of events) {
+            if (event.contract !== "stableBaseCDP" || event.name !== "Transfer") {
+                continue;
+            }
+            const safeId = BigInt(event.args.tokenId).toString();
+            const to = String(event.args.to);
+            if (to === ethers.ZeroAddress) {
+                this.owners.delete(safeId);
+                this.burned.add(safeId);
+            } else {
+                this.owners.set(safeId, to.toLowerCase());
+                this.burned.delete(safeId);
+            }
+        }
+    }
+}
+
+function isUnset(address: string | undefined): boolean {
+    return address === undefined || address === ethers.ZeroAddress;
+}
+
+/**
+ * Consistency of the safe NFTs: balances match ownership, burned safes leave nothing behind,
+ * and owners match the Transfer history. ownerOf and getApproved revert for a burned safe,
+ * so its entries are missing from the snapshot rather than zero.
+ * @param tracker - Follows each safe through its Transfers; the burned safes it collects are checked for leftovers.
+ */
+export function createSafeOwnershipInvariants(tracker: SafeOwnershipTracker): Invariant[] {
+    const record = ({ step, events, snapshot }: InvariantContext) => {
+        const cdp = snapshot.contractSnapshot.stableBaseCDP;
+        tracker.record(step, events, cdp);
+        return cdp;
+    };
+
+    return [
+        {
+            name: "cdp-safe-balances",
+            description: "balanceOfSafes of each account equals the number of safes it owns",
+            contracts: ["stableBaseCDP"],
+            check: (context) => {
+                const cdp = record(context);
+                const owned = new Map<string, bigint>();
+                for (const owner of Object.values(cdp.safeOwner)) {
+                    owned.set(owner.toLowerCase(), (owned.get(owner.toLowerCase()) ?? 0n) + 1n);
+                }
+                return Object.entries(cdp.balanceOfSafes)
+                    .filter(([account, balance]) => balance !== (owned.get(account.toLowerCase()) ?? 0n))
+                    .map(([account, balance]) => `${account} has a balance of ${balance} safes but owns ${owned.get(account.toLowerCase()) ?? 0n}`);
+            },
+        },
+        {
+            name: "cdp-burned-safes-cleared",
+            description: "A closed or liquidated safe has no owner, details or approval left",
+            contracts: ["stableBaseCDP"],
+            check: (context) => {
+                const cdp = record(context);
+                const violations: string[] = [];
+                for (const safeId of tracker.burned) {
+                    if (!isUnset(cdp.safeOwner[safeId])) {
+                        violations.push(`burned safe ${safeId} is still owned by ${cdp.safeOwner[safeId]}`);
+                    }
+                    if (!isUnset(cdp.safeApprovedAddress[safeId])) {
+                        violations.push(`burned safe ${safeId} still approves ${cdp.safeApprovedAddress[safeId]}`);
+                    }
+                    const details = cdp.safeDetails[safeId];
+                    if (details && Object.values(details).some((value) => value !== 0n)) {
+                        violations.push(`burned safe ${safeId} still has collateral ${details.collateralAmount}, debt ${details.borrowedAmount} and weight ${details.weight}`);
+                    }
+                }
+                return violations;
+            },
+        },
+        {
+            name: "cdp-safe-owner-matches-transfers",
+            description: "Each live safe is owned by the recipient of its last Transfer",
+            contracts: ["stableBaseCDP"],
+            check: (context) => {
+                const cdp = record(context);
+                const violations: string[] = [];
+                for (const [safeId, owner] of Object.entries(cdp.safeOwner)) {
+                    const transferredTo = tracker.owners.get(safeId);
+                    if (transferredTo === undefined) {
+                        // A burned safe that is still owned is reported by cdp-burned-safes-cleared
+                        if (!isUnset(owner) && !tracker.burned.has(safeId)) {
+                            violations.push(`safe ${safeId} is owned by ${owner}, but no Transfer to it was seen`);
+                        }
+                    } else if (owner.toLowerCase() !== transferredTo) {
+                        violations.push(`safe ${safeId} is owned by ${owner}, but was last transferred to ${transferredTo}`);
+                    }
+                }
+                for (const [safeId, transferredTo] of tracker.owners) {
+                    if (cdp.safeDetails[safeId] !== undefined && cdp.safeOwner[safeId] === undefined) {
+                        violations.push(`safe ${safeId} was last transferred to ${transferredTo}, but has no owner`);
+                    }
+                }
+                return violations;
+            },
+        },
+    ];
+}
@@ -0,0 +1,248 @@
+import { ethers } from "ethers";
+import { Invariant, InvariantContext, RecordedSteps } from "./engine";
+import { DecodedEvent } from "./events";
+import { IStabilityPoolUserInfo, StabilityPoolSnapshot } from "../contracts/snapshot_interfaces";
+
+/**
+ * Recomputes a depositor's stake after the liquidations since they last touched the pool,
+ * as StabilityPool._getUserEffectiveStake does. A depositor whose last update predates one or
+ * more stake resets is scaled by the reset they saw and the one after it; later resets wiped the stake.
+ * @throws Error if the pool snapshot lacks a reset snapshot the depositor refers to.
+ */
+export function effectiveStake(user: IStabilityPoolUserInfo, pool: StabilityPoolSnapshot): bigint {
+    if (user.cumulativeProductScalingFactor === 0n) {
+        return user.stake;
+    }
+    const precision = pool.precision;
+    if (user.stakeResetCount === pool.stakeResetCount) {
+        return (user.stake * pool.stakeScalingFactor * precision / user.cumulativeProductScalingFactor) / precision;
+    }
+    const resetSeen = pool.stakeResetSnapshots[Number(user.stakeResetCount)];
+    if (!resetSeen) {
+        throw new Error(`stake reset ${user.stakeResetCount} is not in stakeResetSnapshots (${pool.stakeResetSnapshots.length} resets)`);
+    }
+    const stake = (user.stake * resetSeen.scalingFactor * precision / user.cumulativeProductScalingFactor) / precision;
+    if (user.stakeResetCount + 1n === pool.stakeResetCount) {
+        return stake * pool.stakeScalingFactor / precision;
+    }
+    const nextReset = pool.stakeResetSnapshots[Number(user.stakeResetCount + 1n)];
+    if (!nextReset) {
+        throw new Error(`stake reset ${user.stakeResetCount + 1n} is not in stakeResetSnapshots (${pool.stakeResetSnapshots.length} resets)`);
+    }
+    return stake * nextReset.scalingFactor / precision;
+}
+
+/** StabilityPool.SBRRewardDistribution.STARTED: the schedule is emitting. */
+export const SBR_DISTRIBUTION_STARTED = 1n;
+
+/**
+ * The SBR emission the next distribution adds, as StabilityPool._addSBRRewards computes it at `timestamp`:
+ * the rate for every second since the last distribution, up to the end of the schedule.
+ * Zero unless the schedule is running; SBR rewards accrue lazily, so this grows with chain time alone.
+ */
+export function sbrEmissionDue(pool: StabilityPoolSnapshot, timestamp: bigint): bigint {
+    if (pool.sbrRewardDistributionStatus !== SBR_DISTRIBUTION_STARTED) {
+        return 0n;
+    }
+    const until = min(timestamp, pool.sbrRewardDistributionEndTime);
+    if (until <= pool.lastSBRRewardDistributedTime) {
+        return 0n;
+    }
+    return (until - pool.lastSBRRewardDistributedTime) * pool.sbrDistributionRate;
+}
+
+const LOSS_FIELDS = ["rewardLoss", "collateralLoss", "sbrRewardLoss"] as const;
+
+function max(a: bigint, b: bigint): bigint {
+    return a > b ? a : b;
+}
+
+function min(a: bigint, b: bigint): bigint {
+    return a < b ? a : b;
+}
+
+/**
+ * Run-wide totals of what the stability pool was given to distribute and what its depositors took out.
+ */
+export class StabilityPoolRewardTracker {
+    /** DFID fees added through RewardAdded. */
+    addedReward = 0n;
+    /** ETH added through LiquidationPerformed and CollateralRewardAdded. */
+    addedCollateral = 0n;
+    /** DFID and ETH paid out through RewardClaimed, frontend fees included. */
+    claimedReward = 0n;
+    claimedCollateral = 0n;
+    private recordedSteps = new RecordedSteps();
+
+    /**
+     * Adds the pool's income from fees and liquidations in one step, and what its depositors claimed in it.
+     */
+    record(step: number, events: readonly DecodedEvent[]) {
+        if (!this.recordedSteps.add(step)) {
+            return;
+        }
+        for (const event of events) {
+            if (event.contract !== "stabilityPool") {
+                continue;
+            }
+            if (event.name === "RewardAdded") {
+                this.addedReward += BigInt(event.args.rewardAmount);
+            } else if (event.name === "LiquidationPerformed") {
+                this.addedCollateral += BigInt(event.args.collateral);
+            } else if (event.name === "CollateralRewardAdded") {
+                // Read by position, as for DFIREStaking's CollateralRewardAdded
+                this.addedCollateral += BigInt(event.args[0]);
+            } else if (event.name === "RewardClaimed") {
+                this.claimedReward += BigInt(event.args.totalReward);
+                this.claimedCollateral += BigInt(event.args.totalCollateral);
+            }
+        }
+    }
+}
+
+function pendingTotals(context: InvariantContext): { reward: bigint; collateral: bigint } {
+    const pool = context.snapshot.contractSnapshot.stabilityPool;
+    return {
+        reward: Object.values(pool.userPendingReward).reduce((sum, reward) => sum + reward, 0n),
+        collateral: Object.values(pool.userPendingCollateral).reduce((sum, collateral) => sum + collateral, 0n),
+    };
+}
+
+/**
+ * Share accounting invariants of the stability pool. The snapshot holds the depositors that
+ * are actors, so sums over depositors are lower bounds of the pool-wide sums.
+ * @param contracts - The deployed contracts; the pool's own DFID and ETH balances back its depositors.
+ * @param tracker - Sums the fees and liquidated collateral the pool received against what its depositors claimed.
+ */
+export function createStabilityPoolInvariants(contracts: Record<string, ethers.Contract>, tracker: StabilityPoolRewardTracker): Invariant[] {
+    const poolAddress = contracts.stabilityPool.target.toString();
+    const balanceOf = (balances: Record<string, bigint>) =>
+        Object.entries(balances).find(([address]) => address.toLowerCase() === poolAddress.toLowerCase())?.[1] ?? 0n;
+    let openingReward = 0n;
+    let openingCollateral = 0n;
+
+    return [
+        {
+            name: "stability-pool-effective-stakes",
+            description: "The depositors' effective stakes, stake resets included, add up to no more than totalStakedRaw",
+            contracts: ["stabilityPool"],
+            check: ({ snapshot }) => {
+                const pool = snapshot.contractSnapshot.stabilityPool;
+                let total = 0n;
+                for (const user of Object.values(pool.users)) {
+                    total += effectiveStake(user, pool);
+                }
+                if (total > pool.totalStakedRaw) {
+                    return [`effective stakes add up to ${total}, above totalStakedRaw ${pool.totalStakedRaw}`];
+                }
+                return [];
+            },
+        },
+        {
+            name: "stability-pool-reward-backing",
+            description: "The pool holds the DFID staked in it plus every reward it still owes",
+            contracts: ["stabilityPool", "dfidToken"],
+            check: ({ snapshot }) => {
+                const pool = snapshot.contractSnapshot.stabilityPool;
+                const owed = Object.values(pool.userPendingReward).reduce((sum, reward) => sum + reward, pool.totalStakedRaw);
+                const held = balanceOf(snapshot.contractSnapshot.dfidToken.accountBalances);
+                if (held < owed) {
+                    return [`the pool holds ${held} DFID but owes ${owed} (totalStakedRaw ${pool.totalStakedRaw} plus pending rewards)`];
+                }
+                return [];
+            },
+        },
+        {
+            name: "stability-pool-collateral-backing",
+            description: "The pool holds at least the liquidated collateral it still owes depositors",
+            contracts: ["stabilityPool"],
+            check: ({ snapshot }) => {
+                const pool = snapshot.contractSnapshot.stabilityPool;
+                const owed = Object.values(pool.userPendingCollateral).reduce((sum, collateral) => sum + collateral, 0n);
+                const held = BigInt(balanceOf(snapshot.accountSnapshot));
+                if (held < owed) {
+                    return [`the pool holds ${held} wei but owes ${owed} in pending collateral`];
+                }
+                return [];
+            },
+        },
+        {
+            name: "stability-pool-no-over-distribution",
+            description: "Depositors never claim or are owed more DFID and ETH than fees and liquidations added to the pool",
+            contracts: ["stabilityPool"],
+            fatal: true,
+            check: (context) => {
+                tracker.record(context.step, context.events);
+                // Only depositors that are actors are snapshotted, so the pending totals are lower bounds
+                const pending = pendingTotals(context);
+                if (context.step === 0) {
+                    openingReward = pending.reward;
+                    openingCollateral = pending.collateral;
+                }
+                const violations: string[] = [];
+                const givenReward = openingReward + tracker.addedReward;
+                if (tracker.claimedReward + pending.reward > givenReward) {
+                    violations.push(`depositors claimed ${tracker.claimedReward} and are owed ${pending.reward} DFID, but only ${givenReward} was added`);
+                }
+                const givenCollateral = openingCollateral + tracker.addedCollateral;
+                if (tracker.claimedCollateral + pending.collateral > givenCollateral) {
+                    violations.push(`depositors claimed ${tracker.claimedCollateral} and are owed ${pending.collateral} wei, but only ${givenCollateral} was added`);
+                }
+                return violations;
+            },
+        },
+        {
+            name: "stability-pool-sbr-accrual",
+            description: "Each SBR distribution adds the rate for every second since the last one, up to the end of the schedule",
+            contracts: ["stabilityPool"],
+            check: ({ snapshot, previousSnapshot }) => {
+                const pool = snapshot.contractSnapshot.stabilityPool;
+                const previousPool = previousSnapshot?.contractSnapshot.stabilityPool;
+                if (!previousPool || previousPool.sbrRewardDistributionStatus !== SBR_DISTRIBUTION_STARTED) {
+                    return [];
+                }
+                const rewardPerTokenIncrease = pool.totalSbrRewardPerToken - previousPool.totalSbrRewardPerToken;
+                const lossIncrease = pool.sbrRewardLoss - previousPool.sbrRewardLoss;
+                if (pool.lastSBRRewardDistributedTime === previousPool.lastSBRRewardDistributedTime) {
+                    if (rewardPerTokenIncrease !== 0n || lossIncrease !== 0n) {
+                        return [`totalSbrRewardPerToken moved by ${rewardPerTokenIncrease} and sbrRewardLoss by ${lossIncrease} without a distribution`];
+                    }
+                    return [];
+                }
+                // The distribution runs before the step changes the stake, so the previous stake and scaling
+                // factor price the per-token increase; what the truncation dropped moved into sbrRewardLoss
+                const emitted = sbrEmissionDue(previousPool, pool.lastSBRRewardDistributedTime);
+                const { totalStakedRaw, stakeScalingFactor, precision } = previousPool;
+                const distributed = totalStakedRaw === 0n || stakeScalingFactor === 0n
+                    ? 0n
+                    : ((rewardPerTokenIncrease * totalStakedRaw * precision) / stakeScalingFactor) / precision;
+                if (distributed + lossIncrease !== emitted) {
+                    const elapsed = min(pool.lastSBRRewardDistributedTime, previousPool.sbrRewardDistributionEndTime) - previousPool.lastSBRRewardDistributedTime;
+                    return [`${elapsed}s at ${previousPool.sbrDistributionRate} per second emit ${emitted} SBR, but the distribution accounts for ${distributed + lossIncrease} (${distributed} per token, ${lossIncrease} to sbrRewardLoss)`];
+                }
+                return [];
+            },
+        },
+        {
+            name: "stability-pool-losses-are-dust",
+            description: "rewardLoss, collateralLoss and sbrRewardLoss stay below what one unit of the per-token accumulators is worth",
+            contracts: ["stabilityPool"],
+            check: ({ snapshot, previousSnapshot }) => {
+                const pool = snapshot.contractSnapshot.stabilityPool;
+                const previousPool = previousSnapshot?.contractSnapshot.stabilityPool;
+                // A distribution truncates the per-token increase, so its remainder is worth less than
+                // one unit of the accumulator: totalStakedRaw / stakeScalingFactor, plus a wei of rounding.
+                // The stake and scaling factor may both move in the step that set the loss.
+                const stakedRaw = previousPool ? max(pool.totalStakedRaw, previousPool.totalStakedRaw) : pool.totalStakedRaw;
+                const scalingFactor = previousPool ? min(pool.stakeScalingFactor, previousPool.stakeScalingFactor) : pool.stakeScalingFactor;
+                if (scalingFactor === 0n) {
+                    return ["stakeScalingFactor is zero"];
+                }
+                const dust = stakedRaw / scalingFactor + 1n;
+                return LOSS_FIELDS
+                    .filter((field) => pool[field] !== previousPool?.[field] && pool[field] > dust)
+                    .map((field) => `${field} is ${pool[field]}, above the ${dust} a distribution can leave over`);
+            },
+        },
+    ];
+}
@@ -0,0 +1,82 @@
+import { Invariant } from "./engine";
+import { StableBaseCDPSnapshot } from "../contracts/snapshot_interfaces";
+
+const BOOTSTRAP_MODE = 0;
+
+/**
+ * Sums a per-safe amount, counting the redistribution each safe has pending.
+ */
+function sumWithPending(
+    cdp: StableBaseCDPSnapshot,
+    amount: (safeId: string) => bigint,
+    pending: (safeId: string) => bigint
+): { total: bigint; safes: bigint } {
+    let total = 0n;
+    let safes = 0n;
+    for (const safeId of Object.keys(cdp.safeDetails)) {
+        total += amount(safeId) + pending(safeId);
+        safes++;
+    }
+    return { total, safes };
+}
+
+/**
+ * Checks a contract total against the sum over its safes. Each safe's pending share is
+ * rounded down on its own, so the sum may fall short of the total by up to one wei per safe.
+ */
+function reconcile(field: string, total: bigint, sum: { total: bigint; safes: bigint }): string[] {
+    if (sum.total > total || total - sum.total > sum.safes) {
+        return [`${field} is ${total} but the safes add up to ${sum.total} (${sum.safes} safes, pending redistribution included)`];
+    }
+    return [];
+}
+
+export const stableBaseCDPInvariants: Invariant[] = [
+    {
+        name: "cdp-total-collateral",
+        description: "stableBaseCDP.totalCollateral equals the collateral of every safe plus its pending redistribution",
+        contracts: ["stableBaseCDP"],
+        check: ({ snapshot }) => {
+            const cdp = snapshot.contractSnapshot.stableBaseCDP;
+            return reconcile("totalCollateral", cdp.totalCollateral, sumWithPending(
+                cdp,
+                (safeId) => cdp.safeDetails[safeId].collateralAmount,
+                (safeId) => cdp.pendingRedistribution[safeId]?.collateralIncrease ?? 0n
+            ));
+        },
+    },
+    {
+        name: "cdp-total-debt",
+        description: "stableBaseCDP.totalDebt equals the debt of every safe plus its pending redistribution",
+        contracts: ["stableBaseCDP"],
+        check: ({ snapshot }) => {
+            const cdp = snapshot.contractSnapshot.stableBaseCDP;
+            return reconcile("totalDebt", cdp.totalDebt, sumWithPending(
+                cdp,
+                (safeId) => cdp.safeDetails[safeId].borrowedAmount,
+                (safeId) => cdp.pendingRedistribution[safeId]?.debtIncrease ?? 0n
+            ));
+        },
+    },
+    {
+        name: "cdp-debt-backed-by-collateral",
+        description: "No safe has debt without collateral",
+        contracts: ["stableBaseCDP"],
+        check: ({ snapshot }) => Object.entries(snapshot.contractSnapshot.stableBaseCDP.safeDetails)
+            .filter(([, safe]) => safe.collateralAmount === 0n && safe.borrowedAmount !== 0n)
+            .map(([safeId, safe]) => `safe ${safeId} has no collateral but owes ${safe.borrowedAmount}`),
+    },
+    {
+        name: "cdp-no-return-to-bootstrap",
+        description: "PROTOCOL_MODE never goes back to BOOTSTRAP once it has left it",
+        contracts: ["stableBaseCDP"],
+        check: ({ snapshot, previousSnapshot }) => {
+            const previousMode = previousSnapshot?.contractSnapshot.stableBaseCDP?.protocolMode;
+            const mode = snapshot.contractSnapshot.stableBaseCDP.protocolMode;
+            if (previousMode !== undefined && previousMode !== BOOTSTRAP_MODE && mode === BOOTSTRAP_MODE) {
+                return [`PROTOCOL_MODE went from ${previousMode} back to BOOTSTRAP`];
+            }
+            return [];
+        },
+    },
+];
@@ -0,0 +1,64 @@
+import { ethers } from "ethers";
+
+/**
+ * A mined transaction with what it cost and what it moved at the top level.
+ * ETH moved by internal calls is not listed; it only shows in balances.
+ */
+export interface StepTransaction {
+    hash: string;
+    blockNumber: number;
+    /** Lowercased. */
+    from: string;
+    /** Lowercased; null for contract creation. */
+    to: string | null;
+    /** The ETH sent with the transaction; a reverted transaction moves none. */
+    value: bigint;
+    status: number;
+    gasUsed: bigint;
+    /** The price actually paid per gas, base fee included. */
+    effectiveGasPrice: bigint;
+    /** gasUsed * effectiveGasPrice, taken from the sender. */
+    fee: bigint;
+    /** The part of the fee paid to the block's coinbase; the rest is burned. */
+    priorityFee: bigint;
+    /** Lowercased. */
+    coinbase: string;
+}
+
+/**
+ * Fetches every transaction mined in a range of blocks, with its receipt.
+ * @param provider - The provider to read blocks, transactions and receipts from.
+ * @param fromBlock - The first block, inclusive.
+ * @param toBlock - The last block, inclusive.
+ */
+export async function fetchTransactions(provider: ethers.Provider, fromBlock: number, toBlock: number): Promise<StepTransaction[]> {
+    const transactions: StepTransaction[] = [];
+    for (let number = fromBlock; number <= toBlock; number++) {
+        const block = await provider.getBlock(number);
+        if (!block) {
+            throw new Error(`Failed to fetch block ${number}`);
+        }
+        const baseFee = block.baseFeePerGas ?? 0n;
+        for (const hash of block.transactions) {
+            const [transaction, receipt] = await Promise.all([provider.getTransaction(hash), provider.getTransactionReceipt(hash)]);
+            if (!transaction || !receipt) {
+                throw new Error(`Failed to fetch transaction ${hash} of block ${number}`);
+            }
+            const effectiveGasPrice = receipt.gasPrice;
+            transactions.push({
+                hash,
+                blockNumber: number,
+                from: receipt.from.toLowerCase(),
+                to: receipt.to ? receipt.to.toLowerCase() : null,
+                value: receipt.status === 1 ? transaction.value : 0n,
+                status: receipt.status ?? 0,
+                gasUsed: receipt.gasUsed,
+                effectiveGasPrice,
+                fee: receipt.gasUsed * effectiveGasPrice,
+                priorityFee: receipt.gasUsed * (effectiveGasPrice - baseFee),
+                coinbase: block.miner.toLowerCase(),
+            });
+        }
+    }
+    return transactions;
+}
@@ -4,6 +4,8 @@ import type { Account, Web3RunnerOptions, SnapshotProvider, RunContext } from "@
 import {ethers} from 'hardhat';
 import { deployContracts} from './contracts/deploy';
 import { ContractSnapshotProvider } from './contracts/snapshot';
+import { RecordingSnapshotProvider, SnapshotRecorder } from './snapshots/persistence';
+import { EthLedger, InvariantCheckingSnapshotProvider, createInvariantEngine, formatInvariantReport, loadInvariantDefinitions } from './invariants';
 import * as config from './config.json';
 import { setupActors } from './actors';
 
@@ -20,12 +22,16 @@ async function main() {
     let addrIndex = 0;
 
     // Calculate total required accounts
-    const totalActors = Object.values(config.actors).reduce((sum, count) => sum + count, 0);
+    // Admin actors share the deployer account, addrs[0], which takes one slot however many there are
+    const totalActors = Object.entries(config.actors)
+        .reduce((sum, [name, count]) => name === "Admin" ? sum : sum + count, config.actors.Admin > 0 ? 1 : 0);
     if (addrs.length < totalActors) {
         throw new Error(`Not enough accounts (${addrs.length}) for all actors (${totalActors})`);
     }
 
-    const actors = setupActors(config, addrs, contracts);
+    // Shared by the whale's funding action, which reports the balances it sets, and eth-conservation
+    const ethLedger = new EthLedger();
+    const actors = setupActors(config, addrs, contracts, ethLedger);
 
     for (const actor of actors) {
         env.addAgent(actor);
@@ -41,11 +47,24 @@ async function main() {
     };
 
     // Configure Runner with options from config
-    const snapshotProvider = new ContractSnapshotProvider(contracts, actors);
-    const snapshot = await snapshotProvider.snapshot();
-    console.log(snapshot);
+    // Every snapshot, including the initial one, is appended to the snapshot log and then
+    // checked against the protocol invariants, so a snapshot that fails the run is still logged
+    const invariants = createInvariantEngine(contracts, loadInvariantDefinitions(config.invariantDefinitions), ethLedger);
+    const recorder = new SnapshotRecorder(config.snapshotLog);
+    const snapshotProvider = new InvariantCheckingSnapshotProvider(
+        new RecordingSnapshotProvider(new ContractSnapshotProvider(contracts, actors, config.snapshotOptions), recorder),
+        invariants,
+        contracts
+    );
+    await snapshotProvider.snapshot();
+    console.log(`Recording snapshots to ${config.snapshotLog}`);
     const runner = new Runner(contracts, actors, snapshotProvider, config.options);
-    await runner.run();
+    try {
+        await runner.run();
+        invariants.finish();
+    } finally {
+        console.log(formatInvariantReport(invariants.statuses()));
+    }
 }
 
 main()
@@ -0,0 +1,79 @@
+import { Action, Actor, Snapshot } from "@svylabs/ilumina";
+import type { RunContext, ExecutionReceipt } from "@svylabs/ilumina";
+import { ethers } from "ethers";
+import { BlockPinnedSnapshot, SnapshotBlock } from "../contracts/snapshot";
+
+/**
+ * The block and chain a snapshot was taken at.
+ * @throws Error if the snapshot was not taken by ContractSnapshotProvider.
+ */
+export function snapshotBlock(snapshot: Snapshot): SnapshotBlock {
+    const block = (snapshot as BlockPinnedSnapshot).block;
+    if (!block) {
+        throw new Error("Snapshot carries no block context; it was not taken by ContractSnapshotProvider");
+    }
+    return block;
+}
+
+/**
+ * The timestamp of the block a receipt was mined in, i.e. the `block.timestamp` the transaction saw.
+ * The snapshot taken after the transaction is used when it is pinned to that block; otherwise the block is fetched.
+ * @param executionReceipt - The receipt returned by execute().
+ * @param newSnapshot - The snapshot taken after the transaction.
+ */
+export async function receiptBlockTimestamp(executionReceipt: ExecutionReceipt, newSnapshot: Snapshot): Promise<bigint> {
+    const pinned = (newSnapshot as BlockPinnedSnapshot).block;
+    if (pinned && pinned.number === BigInt(executionReceipt.blockNumber)) {
+        return pinned.timestamp;
+    }
+    const block = await executionReceipt.getBlock();
+    if (!block) {
+        throw new Error(`Failed to fetch block ${executionReceipt.blockNumber} of transaction ${executionReceipt.hash}`);
+    }
+    return BigInt(block.timestamp);
+}
+
+/**
+ * The receipt of a step that mines no transaction, such as a cheatcode call or a call that is not sent.
+ * It only carries the current block; no gas is paid and no log is emitted.
+ */
+export async function noTransactionReceipt(provider: ethers.Provider): Promise<ExecutionReceipt> {
+    return {
+        status: 1,
+        gasUsed: 0n,
+        gasPrice: 0n,
+        blockNumber: BigInt(await provider.getBlockNumber()),
+        transactionHash: "",
+        logs: [],
+        events: [],
+    };
+}
+
+/**
+ * Wraps an action so that validate() receives `executionReceipt.blockTimestamp`,
+ * the timestamp of the block the transaction was mined in. Receipts without a block,
+ * such as those of skipped executions, are passed through unchanged.
+ * @param action - The action to wrap; it is modified in place.
+ * @returns The same action.
+ */
+export function withReceiptBlock<T extends Action>(action: T): T {
+    const validate = action.validate.bind(action);
+    action.validate = async (
+        context: RunContext,
+        actor: Actor,
+        previousSnapshot: Snapshot,
+        newSnapshot: Snapshot,
+        actionParams: any,
+        executionReceipt: ExecutionReceipt
+    ): Promise<boolean> => {
+        if (executionReceipt && executionReceipt.blockNumber != null && executionReceipt.blockTimestamp === undefined) {
+            // Receipts are class instances whose getters rely on private fields, so the field is added in place
+            Object.defineProperty(executionReceipt, "blockTimestamp", {
+                value: await receiptBlockTimestamp(executionReceipt, newSnapshot),
+                enumerable: true,
+            });
+        }
+        return validate(context, actor, previousSnapshot, newSnapshot, actionParams, executionReceipt);
+    };
+    return action;
+}
@@ -1,20 +0,0 @@
-import { Snapshot } from "@svylabs/ilumina";
-import { Contract } from "ethers";
-import { Actor } from "@svylabs/ilumina";
-
-export class ContractSnapshotProvider implements SnapshotProvider {
-    private contracts: Record<string, Contract>;
-    private actors: Actor[];
-
-    constructor(contracts: Record<string, Contract>, actors: Actor[]) {
-        this.contracts = contracts;
-        this.actors = actors;
-    }
-
-    async snapshot(): Promise<Snapshot> {
-        return {
-            contractSnapshot: {},
-            actorSnapshot: {}
-        };
-    }
-}
\ No newline at end of file
@@ -0,0 +1,181 @@
+import { Action, Actor, Snapshot } from "@svylabs/ilumina";
+import type { RunContext, ExecutionReceipt } from "@svylabs/ilumina";
+import { expect } from "chai";
+import { ContractSnapshot } from "../contracts/snapshot";
+
+const E18 = 10n ** 18n;
+
+/**
+ * A single field that differs between two snapshots.
+ * `previous` is undefined for added fields and `current` is undefined for removed ones.
+ */
+export interface SnapshotChange {
+    path: string;
+    kind: "changed" | "added" | "removed";
+    previous: unknown;
+    current: unknown;
+}
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+function childPath(parent: string, key: string): string {
+    if (IDENTIFIER.test(key)) {
+        return parent ? `${parent}.${key}` : key;
+    }
+    // Record keys such as addresses and safe IDs
+    return `${parent}[${key}]`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function diffValues(path: string, previous: unknown, current: unknown, changes: SnapshotChange[]) {
+    if (previous === undefined && current === undefined) {
+        return;
+    }
+    if (previous === undefined) {
+        changes.push({ path, kind: "added", previous, current });
+        return;
+    }
+    if (current === undefined) {
+        changes.push({ path, kind: "removed", previous, current });
+        return;
+    }
+    if (Array.isArray(previous) && Array.isArray(current)) {
+        const length = Math.max(previous.length, current.length);
+        for (let i = 0; i < length; i++) {
+            diffValues(`${path}[${i}]`, previous[i], current[i], changes);
+        }
+        return;
+    }
+    if (isPlainObject(previous) && isPlainObject(current)) {
+        const keys = new Set([...Object.keys(previous), ...Object.keys(current)]);
+        for (const key of keys) {
+            diffValues(childPath(path, key), previous[key], current[key], changes);
+        }
+        return;
+    }
+    if (previous !== current) {
+        changes.push({ path, kind: "changed", previous, current });
+    }
+}
+
+/**
+ * Lists every field that differs between two contract snapshots.
+ * @param previous - The contract snapshot taken before the step.
+ * @param current - The contract snapshot taken after the step.
+ * @returns Path-addressed changes such as `stableBaseCDP.safeDetails[12].borrowedAmount`.
+ */
+export function diffContractSnapshots(previous: ContractSnapshot, current: ContractSnapshot): SnapshotChange[] {
+    const changes: SnapshotChange[] = [];
+    diffValues("", previous, current, changes);
+    return changes;
+}
+
+/**
+ * Lists every contract field and account balance that differs between two snapshots.
+ * Account balances are reported under `accountSnapshot[address]`.
+ */
+export function diffSnapshots(previousSnapshot: Snapshot, newSnapshot: Snapshot): SnapshotChange[] {
+    const changes = diffContractSnapshots(previousSnapshot.contractSnapshot, newSnapshot.contractSnapshot);
+    diffValues("accountSnapshot", previousSnapshot.accountSnapshot, newSnapshot.accountSnapshot, changes);
+    return changes;
+}
+
+/**
+ * Formats a snapshot value for a diff line; whole multiples of 1e18 are written as `2000e18`.
+ */
+export function formatSnapshotValue(value: unknown): string {
+    if (typeof value === "bigint") {
+        if (value !== 0n && value % E18 === 0n) {
+            return `${value / E18}e18`;
+        }
+        return value.toString();
+    }
+    if (value === undefined) {
+        return "<none>";
+    }
+    if (typeof value === "object" && value !== null) {
+        return JSON.stringify(value, (_, v) => typeof v === "bigint" ? formatSnapshotValue(v) : v);
+    }
+    return String(value);
+}
+
+/**
+ * Formats changes one per line, e.g. `stableBaseCDP.totalDebt: 2000e18 -> 2500e18`.
+ */
+export function formatSnapshotDiff(changes: SnapshotChange[]): string {
+    return changes
+        .map((change) => `${change.path}: ${formatSnapshotValue(change.previous)} -> ${formatSnapshotValue(change.current)}`)
+        .join("\n");
+}
+
+function pathSegments(path: string): string[] {
+    return path.split(/\.|\[|\]/).filter((segment) => segment.length > 0);
+}
+
+/**
+ * Checks a path against a pattern. Patterns use the same notation as diff paths,
+ * `*` matches any single segment and a pattern also matches everything below it,
+ * so `stableBaseCDP.safeDetails[*]` covers every field of every safe.
+ */
+export function pathMatches(path: string, pattern: string): boolean {
+    const pathParts = pathSegments(path);
+    const patternParts = pathSegments(pattern);
+    if (patternParts.length > pathParts.length) {
+        return false;
+    }
+    return patternParts.every((part, i) => part === "*" || part.toLowerCase() === pathParts[i].toLowerCase());
+}
+
+/**
+ * Asserts that only fields matching the allowed patterns changed between two snapshots.
+ * @param previousSnapshot - The snapshot taken before the step.
+ * @param newSnapshot - The snapshot taken after the step.
+ * @param allowedPatterns - Paths (with `*` wildcards) that the step is expected to touch.
+ * @throws AssertionError listing every unexpected change.
+ */
+export function expectOnlyPathsChanged(previousSnapshot: Snapshot, newSnapshot: Snapshot, allowedPatterns: string[]) {
+    const unexpected = diffSnapshots(previousSnapshot, newSnapshot)
+        .filter((change) => !allowedPatterns.some((pattern) => pathMatches(change.path, pattern)));
+    if (unexpected.length > 0) {
+        expect.fail(`Unexpected snapshot changes:\n${formatSnapshotDiff(unexpected)}`);
+    }
+}
+
+/**
+ * Wraps an action so that a failing validate() reports what moved in the snapshot.
+ * A thrown error gets the diff appended to its message and attached as `snapshotDiff`;
+ * a validate() that returns false has the diff logged.
+ * @param action - The action to wrap; it is modified in place.
+ * @returns The same action.
+ */
+export function withSnapshotDiff<T extends Action>(action: T): T {
+    const validate = action.validate.bind(action);
+    action.validate = async (
+        context: RunContext,
+        actor: Actor,
+        previousSnapshot: Snapshot,
+        newSnapshot: Snapshot,
+        actionParams: any,
+        executionReceipt: ExecutionReceipt
+    ): Promise<boolean> => {
+        try {
+            const valid = await validate(context, actor, previousSnapshot, newSnapshot, actionParams, executionReceipt);
+            if (!valid) {
+                const changes = diffSnapshots(previousSnapshot, newSnapshot);
+                console.error(`${action.name} validation failed. Snapshot diff (${changes.length} changes):\n${formatSnapshotDiff(changes)}`);
+            }
+            return valid;
+        } catch (error) {
+            const changes = diffSnapshots(previousSnapshot, newSnapshot);
+            if (error instanceof Error) {
+                (error as Error & { snapshotDiff?: SnapshotChange[] }).snapshotDiff = changes;
+                error.message += `\nSnapshot diff (${changes.length} changes):\n${formatSnapshotDiff(changes)}`;
+            }
+            throw error;
+        }
+    };
+    return action;
+}
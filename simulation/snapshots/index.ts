@@ -1 +1,6 @@
-export { ContractSnapshotProvider } from "./contract_snapshot_provider";
+export { ContractSnapshotProvider } from "../contracts/snapshot";
+export { SnapshotRegistry, snapshotRegistry } from "../contracts/snapshot_registry";
+export type { ContractSnapshotter, SnapshotContext, SnapshotScope } from "../contracts/snapshot_registry";
+export * from "./block_context";
+export * from "./diff";
+export * from "./persistence";
@@ -0,0 +1,100 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Snapshot, SnapshotProvider } from "@svylabs/ilumina";
+import { ContractSnapshot, BlockPinnedSnapshot } from "../contracts/snapshot";
+
+const BIGINT_TAG = "$bigint";
+
+/**
+ * A snapshot read back from disk, with its contract state typed.
+ */
+export interface StoredSnapshot extends BlockPinnedSnapshot {
+    contractSnapshot: ContractSnapshot;
+}
+
+/**
+ * One line of a snapshot log: the snapshot and its position in the run.
+ */
+export interface SnapshotRecord {
+    index: number;
+    recordedAt: string;
+    snapshot: StoredSnapshot;
+}
+
+/**
+ * Serializes a snapshot to a single JSON line.
+ * Bigints are written as `{"$bigint": "<decimal>"}` so they survive the round trip exactly;
+ * addresses are kept as the strings the contracts returned, checksum casing included.
+ */
+export function serializeSnapshot(snapshot: Snapshot): string {
+    return JSON.stringify(snapshot, (_, value) => typeof value === "bigint" ? { [BIGINT_TAG]: value.toString() } : value);
+}
+
+/**
+ * Parses a line written by serializeSnapshot back into a snapshot.
+ */
+export function deserializeSnapshot(json: string): StoredSnapshot {
+    return JSON.parse(json, (_, value) => {
+        if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+            const keys = Object.keys(value);
+            if (keys.length === 1 && keys[0] === BIGINT_TAG && typeof value[BIGINT_TAG] === "string") {
+                return BigInt(value[BIGINT_TAG]);
+            }
+        }
+        return value;
+    });
+}
+
+/**
+ * Appends snapshots to a JSONL file, one record per line.
+ */
+export class SnapshotRecorder {
+    private file: string;
+    private index = 0;
+
+    /**
+     * @param file - The JSONL file to write; it is truncated when the recorder is created.
+     */
+    constructor(file: string) {
+        this.file = file;
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, "");
+    }
+
+    record(snapshot: Snapshot) {
+        const line = `{"index":${this.index},"recordedAt":${JSON.stringify(new Date().toISOString())},"snapshot":${serializeSnapshot(snapshot)}}\n`;
+        fs.appendFileSync(this.file, line);
+        this.index++;
+    }
+}
+
+/**
+ * Wraps a snapshot provider so that every snapshot it takes is also written to disk.
+ */
+export class RecordingSnapshotProvider implements SnapshotProvider {
+    private provider: SnapshotProvider;
+    private recorder: SnapshotRecorder;
+
+    constructor(provider: SnapshotProvider, recorder: SnapshotRecorder) {
+        this.provider = provider;
+        this.recorder = recorder;
+    }
+
+    async snapshot(): Promise<Snapshot> {
+        const snapshot = await this.provider.snapshot();
+        this.recorder.record(snapshot);
+        return snapshot;
+    }
+}
+
+/**
+ * Reads every record from a snapshot log written by SnapshotRecorder.
+ * @param file - The JSONL file to read.
+ * @returns The records in the order they were written.
+ */
+export function loadSnapshots(file: string): SnapshotRecord[] {
+    return fs.readFileSync(file, "utf8")
+        .split("\n")
+        .filter((line) => line.trim().length > 0)
+        .map((line) => deserializeSnapshot(line) as unknown as SnapshotRecord);
+}
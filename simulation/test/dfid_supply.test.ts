@@ -0,0 +1,74 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { DfidSupplyLedger } from "../invariants/dfid_supply";
+import { ALICE, contractAt, decodedEvent } from "./fixtures";
+
+const CDP = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+const POOL = "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512";
+
+function mint(to: string, value: bigint, transactionHash: string) {
+    return decodedEvent("dfidToken", "Transfer", { from: ethers.ZeroAddress, to, value }, transactionHash);
+}
+
+function burn(from: string, value: bigint, transactionHash: string) {
+    return decodedEvent("dfidToken", "Transfer", { from, to: ethers.ZeroAddress, value }, transactionHash);
+}
+
+function cdpEvent(name: string, transactionHash: string) {
+    return decodedEvent("stableBaseCDP", name, {}, transactionHash);
+}
+
+describe("DfidSupplyLedger", () => {
+    let ledger: DfidSupplyLedger;
+
+    beforeEach(() => {
+        ledger = new DfidSupplyLedger({ stableBaseCDP: contractAt(CDP), stabilityPool: contractAt(POOL) });
+    });
+
+    it("attributes mints to borrows and to fees paid to the CDP", () => {
+        const added = ledger.record(1, [
+            cdpEvent("Borrowed", "0xa"), mint(ALICE, 100n, "0xa"),
+            cdpEvent("FeeDistributed", "0xb"), mint(CDP, 3n, "0xb"),
+        ]);
+        expect(added.map((entry) => [entry.kind, entry.cause, entry.account, entry.amount])).to.deep.equal([
+            ["mint", "borrow", ALICE.toLowerCase(), 100n],
+            ["mint", "fee", CDP.toLowerCase(), 3n],
+        ]);
+    });
+
+    it("attributes burns to refunds, liquidations, repayments and redemptions", () => {
+        const added = ledger.record(1, [
+            cdpEvent("FeeRefund", "0xa"), burn(CDP, 1n, "0xa"),
+            cdpEvent("LiquidatedUsingStabilityPool", "0xb"), burn(POOL, 2n, "0xb"),
+            cdpEvent("Repaid", "0xc"), burn(ALICE, 3n, "0xc"),
+            cdpEvent("RedeemedBatch", "0xd"), burn(ALICE, 4n, "0xd"),
+        ]);
+        expect(added.map((entry) => entry.cause)).to.deep.equal(["refund", "liquidation", "repayment", "redemption"]);
+    });
+
+    it("only takes causes from the transaction the mint or burn is in", () => {
+        const added = ledger.record(1, [cdpEvent("Borrowed", "0xa"), mint(ALICE, 100n, "0xb")]);
+        expect(added.map((entry) => entry.cause)).to.deep.equal(["unexplained"]);
+    });
+
+    it("ignores transfers between accounts and events of other contracts", () => {
+        const added = ledger.record(1, [
+            decodedEvent("dfidToken", "Transfer", { from: ALICE, to: CDP, value: 5n }),
+            decodedEvent("dfireToken", "Transfer", { from: ethers.ZeroAddress, to: ALICE, value: 5n }),
+        ]);
+        expect(added).to.deep.equal([]);
+    });
+
+    it("totals the supply change of the run by cause", () => {
+        ledger.record(1, [cdpEvent("Borrowed", "0xa"), mint(ALICE, 100n, "0xa"), cdpEvent("FeeDistributed", "0xb"), mint(CDP, 10n, "0xb")]);
+        ledger.record(2, [cdpEvent("Repaid", "0xc"), burn(ALICE, 40n, "0xc"), cdpEvent("FeeRefund", "0xd"), burn(CDP, 4n, "0xd")]);
+
+        expect(ledger.totals()).to.deep.equal({
+            borrow: 100n, fee: 10n, refund: -4n, repayment: -40n, redemption: 0n, liquidation: 0n, unexplained: 0n,
+        });
+        expect(ledger.accountedFees()).to.equal(6n);
+        expect(ledger.netSupplyChange()).to.equal(66n);
+        expect(ledger.burned()).to.equal(44n);
+        expect(ledger.entries.map((entry) => entry.step)).to.deep.equal([1, 1, 2, 2]);
+    });
+});
@@ -0,0 +1,79 @@
+import { expect } from "chai";
+import { InvariantContext } from "../invariants/engine";
+import { DecodedEvent } from "../invariants/events";
+import { DfireStakingRewardTracker, createDfireStakingInvariants } from "../invariants/dfire_staking";
+import { ALICE, BOB, decodedEvent } from "./fixtures";
+
+function feeDistributed(sbrStakersFee: bigint, transactionHash: string) {
+    return decodedEvent("stableBaseCDP", "FeeDistributed", { sbrStakersFee }, transactionHash);
+}
+
+function rewardAdded(rewardAmount: bigint, transactionHash: string) {
+    return decodedEvent("dfireStaking", "RewardAdded", { rewardAmount }, transactionHash);
+}
+
+describe("DfireStakingRewardTracker", () => {
+    it("sums fees, collateral and claims and counts the distributions of each step", () => {
+        const tracker = new DfireStakingRewardTracker();
+        tracker.record(1, [
+            feeDistributed(10n, "0xa"), rewardAdded(10n, "0xa"),
+            decodedEvent("dfireStaking", "CollateralRewardAdded", { amount: 4n }, "0xb"),
+            decodedEvent("dfireStaking", "Claimed", { user: ALICE, rewardAmount: 6n, collateralReward: 1n }, "0xc"),
+            decodedEvent("stabilityPool", "RewardAdded", { rewardAmount: 1000n }, "0xd"),
+        ]);
+        tracker.record(2, []);
+
+        expect([tracker.addedReward, tracker.addedCollateral, tracker.claimedReward, tracker.claimedCollateral])
+            .to.deep.equal([10n, 4n, 6n, 1n]);
+        expect([...tracker.distributions]).to.deep.equal([[1, 2], [2, 0]]);
+        expect(tracker.feeMismatches).to.deep.equal([]);
+    });
+
+    it("reports a RewardAdded that differs from the sbrStakersFee of its own transaction", () => {
+        const tracker = new DfireStakingRewardTracker();
+        tracker.record(1, [
+            feeDistributed(10n, "0xa"), rewardAdded(9n, "0xa"),
+            feeDistributed(5n, "0xb"),
+            rewardAdded(7n, "0xc"),
+        ]);
+        expect(tracker.addedReward).to.equal(16n);
+        expect(tracker.feeMismatches).to.deep.equal(["0xa: RewardAdded 9, FeeDistributed.sbrStakersFee 10"]);
+    });
+
+    it("applies a step recorded by both invariants once", () => {
+        const tracker = new DfireStakingRewardTracker();
+        const events = [feeDistributed(10n, "0xa"), rewardAdded(10n, "0xa")];
+        tracker.record(1, events);
+        tracker.record(1, events);
+        expect(tracker.addedReward).to.equal(10n);
+        expect(tracker.distributions.get(1)).to.equal(1);
+    });
+});
+
+describe("DFIREStaking invariants", () => {
+    function context(step: number, events: DecodedEvent[], pending: Record<string, [bigint, bigint]>, totalStake = 0n): InvariantContext {
+        const userPendingRewards = Object.fromEntries(Object.entries(pending)
+            .map(([address, [pendingRewardAmount, pendingCollateralReward]]) => [address, { pendingRewardAmount, pendingCollateralReward }]));
+        return { step, events, transactions: [], snapshot: { contractSnapshot: { dfireStaking: { totalStake, userPendingRewards } } } } as unknown as InvariantContext;
+    }
+
+    it("record each step once between them and find nothing when every reward is accounted for", () => {
+        const tracker = new DfireStakingRewardTracker();
+        const invariants = createDfireStakingInvariants(tracker);
+        for (const [step, events, pending] of [
+            [0, [], {}],
+            [1, [feeDistributed(10n, "0xa"), rewardAdded(10n, "0xa")], { [ALICE]: [6n, 0n], [BOB]: [4n, 0n] }],
+        ] as [number, DecodedEvent[], Record<string, [bigint, bigint]>][]) {
+            for (const invariant of invariants) {
+                expect(invariant.check(context(step, events, pending)), `${invariant.name} at step ${step}`).to.deep.equal([]);
+            }
+        }
+        expect(tracker.addedReward).to.equal(10n);
+    });
+
+    it("fail when stakers are owed more than was added", () => {
+        const [noOverDistribution] = createDfireStakingInvariants(new DfireStakingRewardTracker());
+        expect(noOverDistribution.check(context(1, [rewardAdded(10n, "0xa")], { [ALICE]: [11n, 0n] })))
+            .to.deep.equal(["stakers claimed 0 and are owed 11 DFID, but only 10 was added"]);
+    });
+});
@@ -0,0 +1,116 @@
+import { expect } from "chai";
+import { ContractSnapshot } from "../contracts/snapshot";
+import { Snapshot } from "@svylabs/ilumina";
+import { diffContractSnapshots, expectOnlyPathsChanged, formatSnapshotDiff, formatSnapshotValue, pathMatches } from "../snapshots/diff";
+
+const E18 = 10n ** 18n;
+const ALICE = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+
+function contractSnapshot(fields: Record<string, unknown>): ContractSnapshot {
+    return fields as unknown as ContractSnapshot;
+}
+
+describe("snapshot diff", () => {
+    describe("diffContractSnapshots", () => {
+        it("finds nothing between equal snapshots", () => {
+            const snapshot = contractSnapshot({ stableBaseCDP: { totalDebt: 5n, safeDetails: { "1": { borrowedAmount: 5n } } } });
+            const copy = contractSnapshot({ stableBaseCDP: { totalDebt: 5n, safeDetails: { "1": { borrowedAmount: 5n } } } });
+            expect(diffContractSnapshots(snapshot, copy)).to.deep.equal([]);
+        });
+
+        it("addresses fields by dotted paths and record keys by brackets", () => {
+            const changes = diffContractSnapshots(
+                contractSnapshot({ stableBaseCDP: { totalDebt: 2000n * E18, safeDetails: { "12": { borrowedAmount: 1n } } } }),
+                contractSnapshot({ stableBaseCDP: { totalDebt: 2500n * E18, safeDetails: { "12": { borrowedAmount: 2n } } } }),
+            );
+            expect(changes).to.deep.equal([
+                { path: "stableBaseCDP.totalDebt", kind: "changed", previous: 2000n * E18, current: 2500n * E18 },
+                { path: "stableBaseCDP.safeDetails[12].borrowedAmount", kind: "changed", previous: 1n, current: 2n },
+            ]);
+        });
+
+        it("reports added and removed record entries", () => {
+            const changes = diffContractSnapshots(
+                contractSnapshot({ dfidToken: { accountBalances: { [ALICE]: 1n } } }),
+                contractSnapshot({ dfidToken: { accountBalances: { "0xB": 2n } } }),
+            );
+            expect(changes).to.deep.equal([
+                { path: `dfidToken.accountBalances[${ALICE}]`, kind: "removed", previous: 1n, current: undefined },
+                { path: "dfidToken.accountBalances[0xB]", kind: "added", previous: undefined, current: 2n },
+            ]);
+        });
+
+        it("compares arrays element by element", () => {
+            const changes = diffContractSnapshots(
+                contractSnapshot({ stableBaseCDP: { safeDiscovery: { [ALICE]: ["1", "2"] } } }),
+                contractSnapshot({ stableBaseCDP: { safeDiscovery: { [ALICE]: ["1", "3", "4"] } } }),
+            );
+            expect(changes.map((change) => [change.path, change.kind])).to.deep.equal([
+                [`stableBaseCDP.safeDiscovery[${ALICE}][1]`, "changed"],
+                [`stableBaseCDP.safeDiscovery[${ALICE}][2]`, "added"],
+            ]);
+        });
+    });
+
+    describe("formatSnapshotDiff", () => {
+        it("writes one line per change, with whole multiples of 1e18 shortened", () => {
+            const changes = diffContractSnapshots(
+                contractSnapshot({ stableBaseCDP: { totalDebt: 2000n * E18, totalCollateral: 7n } }),
+                contractSnapshot({ stableBaseCDP: { totalDebt: 2500n * E18 } }),
+            );
+            expect(formatSnapshotDiff(changes)).to.equal(
+                "stableBaseCDP.totalDebt: 2000e18 -> 2500e18\nstableBaseCDP.totalCollateral: 7 -> <none>"
+            );
+        });
+
+        it("formats zero, fractions of 1e18 and nested values", () => {
+            expect(formatSnapshotValue(0n)).to.equal("0");
+            expect(formatSnapshotValue(E18 + 1n)).to.equal((E18 + 1n).toString());
+            expect(formatSnapshotValue({ value: 3n * E18, active: true })).to.equal("{\"value\":\"3e18\",\"active\":true}");
+        });
+    });
+
+    describe("pathMatches", () => {
+        it("matches a path exactly or anything below it", () => {
+            expect(pathMatches("stableBaseCDP.totalDebt", "stableBaseCDP.totalDebt")).to.equal(true);
+            expect(pathMatches("stableBaseCDP.safeDetails[12].borrowedAmount", "stableBaseCDP.safeDetails")).to.equal(true);
+            expect(pathMatches("stableBaseCDP", "stableBaseCDP.totalDebt")).to.equal(false);
+            expect(pathMatches("stableBaseCDP.totalCollateral", "stableBaseCDP.totalDebt")).to.equal(false);
+        });
+
+        it("matches any single segment with *", () => {
+            expect(pathMatches("stableBaseCDP.safeDetails[12].borrowedAmount", "stableBaseCDP.safeDetails[*].borrowedAmount")).to.equal(true);
+            expect(pathMatches("stableBaseCDP.safeDetails[12].collateralAmount", "stableBaseCDP.safeDetails[*].borrowedAmount")).to.equal(false);
+        });
+
+        it("ignores the case of addresses", () => {
+            expect(pathMatches(`accountSnapshot[${ALICE}]`, `accountSnapshot[${ALICE.toLowerCase()}]`)).to.equal(true);
+        });
+    });
+
+    describe("expectOnlyPathsChanged", () => {
+        function snapshot(totalDebt: bigint, balance: bigint, borrowed: bigint): Snapshot {
+            return {
+                contractSnapshot: { stableBaseCDP: { totalDebt, safeDetails: { "12": { borrowedAmount: borrowed } } } },
+                accountSnapshot: { [ALICE]: balance },
+            } as unknown as Snapshot;
+        }
+
+        it("passes when every change matches an allowed pattern", () => {
+            expect(() => expectOnlyPathsChanged(snapshot(1n, 10n, 1n), snapshot(2n, 9n, 2n), [
+                "stableBaseCDP.totalDebt",
+                "stableBaseCDP.safeDetails[*]",
+                `accountSnapshot[${ALICE.toLowerCase()}]`,
+            ])).not.to.throw();
+        });
+
+        it("passes when nothing changed", () => {
+            expect(() => expectOnlyPathsChanged(snapshot(1n, 10n, 1n), snapshot(1n, 10n, 1n), [])).not.to.throw();
+        });
+
+        it("fails listing every change no pattern allows", () => {
+            expect(() => expectOnlyPathsChanged(snapshot(1n, 10n, 1n), snapshot(2n, 9n, 2n), [`accountSnapshot[${ALICE}]`]))
+                .to.throw("Unexpected snapshot changes:\nstableBaseCDP.totalDebt: 1 -> 2\nstableBaseCDP.safeDetails[12].borrowedAmount: 1 -> 2");
+        });
+    });
+});
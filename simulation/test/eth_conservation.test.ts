@@ -0,0 +1,120 @@
+import { expect } from "chai";
+import { InvariantContext } from "../invariants/engine";
+import { EthLedger, createEthConservationInvariant } from "../invariants/eth_conservation";
+import { StepTransaction } from "../invariants/transactions";
+import { ALICE, BOB } from "./fixtures";
+
+const alice = ALICE.toLowerCase();
+const bob = BOB.toLowerCase();
+const OUTSIDER = "0x90f79bf6eb2c4f870365e785982e1f101e93b906";
+const COINBASE = "0xc014ba5ec014ba5ec014ba5ec014ba5ec014ba5e";
+
+function transaction(fields: Partial<StepTransaction>): StepTransaction {
+    return {
+        hash: "0x01",
+        blockNumber: 1,
+        from: alice,
+        to: bob,
+        value: 0n,
+        status: 1,
+        gasUsed: 21000n,
+        effectiveGasPrice: 1n,
+        fee: 21000n,
+        priorityFee: 1000n,
+        coinbase: COINBASE,
+        ...fields,
+    };
+}
+
+// Only accountSnapshot is read by eth-conservation
+function context(step: number, balances: Record<string, bigint>, previousBalances?: Record<string, bigint>, transactions: StepTransaction[] = []): InvariantContext {
+    const snapshotOf = (accountSnapshot: Record<string, bigint>) => ({ accountSnapshot, contractSnapshot: {} }) as unknown as InvariantContext["snapshot"];
+    return {
+        step,
+        snapshot: snapshotOf(balances),
+        previousSnapshot: previousBalances && snapshotOf(previousBalances),
+        events: [],
+        transactions,
+    };
+}
+
+describe("EthLedger", () => {
+    const tracked = new Set([alice, bob]);
+
+    it("charges the fee of a transaction to a tracked sender only", () => {
+        const ledger = new EthLedger();
+        const added = ledger.record(1, [transaction({}), transaction({ hash: "0x02", from: OUTSIDER })], tracked);
+        expect(added.map((entry) => entry.fee)).to.deep.equal([21000n, 0n]);
+        expect(ledger.feesPaid()).to.equal(21000n);
+    });
+
+    it("counts ETH sent between tracked and untracked accounts, not among tracked ones", () => {
+        const ledger = new EthLedger();
+        const added = ledger.record(1, [
+            transaction({ value: 5n }),
+            transaction({ to: OUTSIDER, value: 7n }),
+            transaction({ from: OUTSIDER, value: 11n }),
+            transaction({ to: null, value: 13n }),
+        ], tracked);
+        expect(added.map((entry) => entry.valueOut)).to.deep.equal([0n, 7n, -11n, 13n]);
+    });
+
+    it("credits the priority fee back when the coinbase is tracked", () => {
+        const ledger = new EthLedger();
+        const [entry] = ledger.record(1, [transaction({ coinbase: bob })], tracked);
+        expect(entry.feeToTrackedCoinbase).to.equal(1000n);
+    });
+
+    describe("balance overrides", () => {
+        it("are taken once, at the next step, as the ETH they added", () => {
+            const ledger = new EthLedger();
+            ledger.recordBalanceOverride({ address: ALICE, previousBalance: 10n, balance: 100n });
+            ledger.recordBalanceOverride({ address: BOB, previousBalance: 50n, balance: 20n });
+
+            expect(ledger.recordOverrides(3, tracked)).to.equal(60n);
+            expect(ledger.overrides.map((override) => [override.address, override.step])).to.deep.equal([[alice, 3], [bob, 3]]);
+            expect(ledger.recordOverrides(4, tracked)).to.equal(0n);
+        });
+
+        it("leave out untracked accounts", () => {
+            const ledger = new EthLedger();
+            ledger.recordBalanceOverride({ address: OUTSIDER, previousBalance: 0n, balance: 100n });
+            expect(ledger.recordOverrides(1, tracked)).to.equal(0n);
+            expect(ledger.overrides).to.deep.equal([]);
+        });
+    });
+});
+
+describe("eth-conservation", () => {
+    it("holds when balances only move by fees and ETH sent out", () => {
+        const invariant = createEthConservationInvariant(new EthLedger());
+        const violations = invariant.check(context(1,
+            { [ALICE]: 1000000n - 21000n - 7n, [BOB]: 500n },
+            { [ALICE]: 1000000n, [BOB]: 500n },
+            [transaction({ to: OUTSIDER, value: 7n })]));
+        expect(violations).to.deep.equal([]);
+    });
+
+    it("accounts for a balance override recorded on the ledger", () => {
+        const ledger = new EthLedger();
+        const invariant = createEthConservationInvariant(ledger);
+        ledger.recordBalanceOverride({ address: BOB, previousBalance: 500n, balance: 10n ** 24n });
+        const violations = invariant.check(context(1, { [ALICE]: 1000n, [BOB]: 10n ** 24n }, { [ALICE]: 1000n, [BOB]: 500n }));
+        expect(violations).to.deep.equal([]);
+    });
+
+    it("reports ETH that appeared without an override", () => {
+        const invariant = createEthConservationInvariant(new EthLedger());
+        const violations = invariant.check(context(1, { [ALICE]: 1000n, [BOB]: 600n }, { [ALICE]: 1000n, [BOB]: 500n }));
+        expect(violations[0]).to.equal("Tracked ETH went from 1500 to 1600, but the step's transactions and balance overrides account for a loss of 0 (-100 unaccounted)");
+        expect(violations).to.include(`  ${BOB}: +100`);
+    });
+
+    it("takes the overrides made before the first snapshot without checking it", () => {
+        const ledger = new EthLedger();
+        const invariant = createEthConservationInvariant(ledger);
+        ledger.recordBalanceOverride({ address: ALICE, previousBalance: 0n, balance: 1000n });
+        expect(invariant.check(context(0, { [ALICE]: 1000n }))).to.deep.equal([]);
+        expect(invariant.check(context(1, { [ALICE]: 1000n }, { [ALICE]: 1000n }))).to.deep.equal([]);
+    });
+});
@@ -0,0 +1,208 @@
+import { expect } from "chai";
+import { evaluateExpression, formatExpression, parseExpression, referencedNames } from "../invariants/expression";
+
+function evaluate(source: string, scope: Record<string, unknown> = {}) {
+    return evaluateExpression(parseExpression(source), scope);
+}
+
+describe("expression", () => {
+    describe("literals", () => {
+        it("reads integers as bigints", () => {
+            expect(evaluate("42")).to.equal(42n);
+        });
+
+        it("reads 1e18 as 10^18", () => {
+            expect(evaluate("1e18")).to.equal(10n ** 18n);
+            expect(evaluate("2000e18")).to.equal(2000n * 10n ** 18n);
+        });
+
+        it("reads strings and booleans", () => {
+            expect(evaluate("'dfid'")).to.equal("dfid");
+            expect(evaluate("\"dfire\"")).to.equal("dfire");
+            expect(evaluate("true && !false")).to.equal(true);
+        });
+
+        it("turns integer numbers in the scope into bigints", () => {
+            expect(evaluate("count + 1", { count: 2 })).to.equal(3n);
+        });
+    });
+
+    describe("precedence", () => {
+        it("multiplies before adding", () => {
+            expect(evaluate("1 + 2 * 3")).to.equal(7n);
+            expect(evaluate("(1 + 2) * 3")).to.equal(9n);
+        });
+
+        it("groups operators of equal precedence from the left", () => {
+            expect(evaluate("10 - 4 - 3")).to.equal(3n);
+            expect(evaluate("100 / 10 / 5")).to.equal(2n);
+            expect(evaluate("7 % 4 * 2")).to.equal(6n);
+        });
+
+        it("compares after arithmetic and combines comparisons last", () => {
+            expect(evaluate("1 + 1 == 2 && 3 > 2 * 1")).to.equal(true);
+            expect(evaluate("false || 1 < 2 && 2 < 1")).to.equal(false);
+        });
+
+        it("binds && tighter than ||", () => {
+            expect(formatExpression(parseExpression("a || b && c"))).to.equal("(a || (b && c))");
+        });
+
+        it("binds unary operators tighter than binary ones", () => {
+            expect(evaluate("-2 * 3")).to.equal(-6n);
+            expect(evaluate("!true == false")).to.equal(true);
+        });
+
+        it("divides as integers, rounding toward zero", () => {
+            expect(evaluate("7 / 2")).to.equal(3n);
+            expect(evaluate("-7 / 2")).to.equal(-3n);
+        });
+    });
+
+    describe("paths", () => {
+        const scope = {
+            stableBaseCDP: { totalDebt: 5n, safeDetails: { "12": { borrowedAmount: 3n } } },
+            list: { nodes: [{ value: 1n }, { value: 4n }] },
+        };
+
+        it("reads fields, record keys and array elements", () => {
+            expect(evaluate("stableBaseCDP.totalDebt", scope)).to.equal(5n);
+            expect(evaluate("stableBaseCDP.safeDetails[12].borrowedAmount", scope)).to.equal(3n);
+            expect(evaluate("list.nodes[1].value", scope)).to.equal(4n);
+        });
+
+        it("gives undefined past a missing value", () => {
+            expect(evaluate("stableBaseCDP.safeDetails[7].borrowedAmount", scope)).to.equal(undefined);
+        });
+    });
+
+    describe("??", () => {
+        const scope = { safes: { "1": { debt: 5n } } };
+
+        it("replaces undefined with its right side", () => {
+            expect(evaluate("safes[2].debt ?? 0", scope)).to.equal(0n);
+        });
+
+        it("keeps a defined left side, including zero and false", () => {
+            expect(evaluate("safes[1].debt ?? 0", scope)).to.equal(5n);
+            expect(evaluate("0 ?? 1")).to.equal(0n);
+            expect(evaluate("false ?? true")).to.equal(false);
+        });
+
+        it("does not evaluate its right side when the left is defined", () => {
+            expect(evaluate("1 ?? missing")).to.equal(1n);
+        });
+
+        it("binds looser than every other operator", () => {
+            expect(evaluate("safes[2].debt ?? 1 + 2", scope)).to.equal(3n);
+            expect(formatExpression(parseExpression("a ?? b || c"))).to.equal("(a ?? (b || c))");
+        });
+    });
+
+    describe("aggregations", () => {
+        const scope = {
+            balances: { "0xA": 10n, "0xB": 0n, "0xC": 30n },
+            prices: [3n, 1n, 2n],
+            empty: {},
+        };
+
+        it("sums elements, or an expression of each element", () => {
+            expect(evaluate("sum(balances)", scope)).to.equal(40n);
+            expect(evaluate("sum(prices, it * 2)", scope)).to.equal(12n);
+            expect(evaluate("sum(empty)", scope)).to.equal(0n);
+        });
+
+        it("counts every element, or the elements a predicate holds for", () => {
+            expect(evaluate("count(balances)", scope)).to.equal(3n);
+            expect(evaluate("count(balances, it > 0)", scope)).to.equal(2n);
+        });
+
+        it("binds key to the record key of each element", () => {
+            expect(evaluate("count(balances, key != '0xB')", scope)).to.equal(2n);
+            expect(evaluate("all(balances, key != '0xD')", scope)).to.equal(true);
+        });
+
+        it("binds key to the index of each array element", () => {
+            expect(evaluate("count(prices, key == '1')", scope)).to.equal(1n);
+            expect(evaluate("any(balances, key == '0xB' && it == 0)", scope)).to.equal(true);
+        });
+
+        it("checks a predicate for all or any elements", () => {
+            expect(evaluate("all(prices, it > 0)", scope)).to.equal(true);
+            expect(evaluate("all(balances, it > 0)", scope)).to.equal(false);
+            expect(evaluate("any(balances, it > 20)", scope)).to.equal(true);
+            expect(evaluate("all(empty, it > 0)", scope)).to.equal(true);
+            expect(evaluate("any(empty, it > 0)", scope)).to.equal(false);
+        });
+
+        it("finds the smallest and largest element", () => {
+            expect(evaluate("min(prices)", scope)).to.equal(1n);
+            expect(evaluate("max(prices)", scope)).to.equal(3n);
+            expect(evaluate("max(balances, it * 2)", scope)).to.equal(60n);
+        });
+
+        it("gives undefined for min and max of nothing", () => {
+            expect(evaluate("min(empty)", scope)).to.equal(undefined);
+            expect(evaluate("max(empty) ?? 0", scope)).to.equal(0n);
+        });
+
+        it("reads outer names inside the predicate", () => {
+            expect(evaluate("count(prices, it >= threshold)", { ...scope, threshold: 2n })).to.equal(2n);
+        });
+
+        it("requires a predicate for all and any", () => {
+            expect(() => parseExpression("all(prices)")).to.throw("all() at 0 needs a predicate");
+        });
+
+        it("rejects a collection that is not a record or array", () => {
+            expect(() => evaluate("sum(total)", { total: 5n })).to.throw("total is not a record or array");
+        });
+    });
+
+    describe("errors", () => {
+        it("throws on division and modulo by zero", () => {
+            expect(() => evaluate("1 / 0")).to.throw("Division by zero in (1 / 0)");
+            expect(() => evaluate("a % b", { a: 1n, b: 0n })).to.throw("Division by zero in (a % b)");
+        });
+
+        it("throws on a name missing from the scope", () => {
+            expect(() => evaluate("missing + 1")).to.throw("Unknown name 'missing'");
+        });
+
+        it("throws on an unknown function when parsing", () => {
+            expect(() => parseExpression("avg(prices)")).to.throw("Unknown function 'avg' at 0");
+        });
+
+        it("throws when undefined is used in an operation", () => {
+            expect(() => evaluate("safes[1].debt + 1", { safes: {} })).to.throw("safes[1].debt is undefined");
+            expect(() => evaluate("safes[1].debt == 0", { safes: {} })).to.throw("safes[1].debt is undefined");
+        });
+
+        it("throws when types are mixed", () => {
+            expect(() => evaluate("1 + true")).to.throw("true is a boolean, expected a bigint");
+            expect(() => evaluate("1 == '1'")).to.throw("Cannot compare a bigint with a string");
+            expect(() => evaluate("1 && true")).to.throw("1 is a bigint, expected a boolean");
+        });
+
+        it("reports syntax errors with their position", () => {
+            expect(() => parseExpression("1 +")).to.throw("Unexpected end of expression at 3");
+            expect(() => parseExpression("(1 + 2")).to.throw("Expected ')' but found end of expression at 6");
+            expect(() => parseExpression("1 2")).to.throw("Unexpected '2' at 2");
+            expect(() => parseExpression("a.1")).to.throw("Expected a field name but found '1' at 2");
+            expect(() => parseExpression("1 # 2")).to.throw("Unexpected character '#' at 2");
+            expect(() => parseExpression("'open")).to.throw("Unterminated string at 0");
+        });
+    });
+
+    describe("referencedNames", () => {
+        it("lists the names read from the scope", () => {
+            const names = referencedNames(parseExpression("stableBaseCDP.totalDebt + dfidToken.accountBalances[stabilityPool.address]"));
+            expect([...names]).to.have.members(["stableBaseCDP", "dfidToken", "stabilityPool"]);
+        });
+
+        it("leaves out it and key inside aggregations only", () => {
+            const names = referencedNames(parseExpression("sum(safes, it.debt * key) + it"));
+            expect([...names]).to.have.members(["safes", "it"]);
+        });
+    });
+});
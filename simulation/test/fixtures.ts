@@ -0,0 +1,26 @@
+import { ethers } from "ethers";
+import { DecodedEvent } from "../invariants/events";
+
+export const ALICE = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+export const BOB = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+
+/**
+ * An event as decodeEvents gives it; the arguments can be read by name or by position.
+ */
+export function decodedEvent(contract: string, name: string, args: Record<string, unknown>, transactionHash = "0x01"): DecodedEvent {
+    return {
+        contract,
+        name,
+        args: ethers.Result.fromItems(Object.values(args), Object.keys(args)),
+        transactionHash,
+        blockNumber: 1,
+        logIndex: 0,
+    };
+}
+
+/**
+ * Stands in for a deployed contract where only its address is read.
+ */
+export function contractAt(address: string): ethers.Contract {
+    return { target: address } as unknown as ethers.Contract;
+}
@@ -0,0 +1,121 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { Actor } from "@svylabs/ilumina";
+import { TouchedEntities, refreshDfireStaking, refreshStabilityPool } from "../contracts/incremental_snapshot";
+import { takedfireStakingContractSnapshot } from "../contracts/dfireStaking_snapshot";
+import { takestabilityPoolContractSnapshot } from "../contracts/stabilityPool_snapshot";
+import { ALICE, BOB } from "./fixtures";
+
+function actor(address: string): Actor {
+    return { account: { address }, getIdentifiers: () => ({ accountAddress: address }) } as unknown as Actor;
+}
+
+function touchedAccounts(...accounts: string[]): TouchedEntities {
+    return {
+        contracts: new Set(),
+        accounts: new Set(accounts.map((account) => account.toLowerCase())),
+        safeIds: new Set(),
+        openedSafeIds: new Set(),
+        burnedSafeIds: new Set(),
+    };
+}
+
+type AccountViews = Record<string, (stake: bigint) => unknown>;
+
+const STAKING_VIEWS: AccountViews = {
+    getStake: (stake) => ({ stake, rewardSnapshot: 0n, collateralSnapshot: 0n }),
+    userPendingReward: (stake) => ({ pendingRewardAmount: stake, pendingCollateralReward: 0n }),
+};
+
+const STABILITY_POOL_VIEWS: AccountViews = {
+    users: (stake) => ({ stake, rewardSnapshot: 0n, collateralSnapshot: 0n, cumulativeProductScalingFactor: 0n, stakeResetCount: 0n }),
+    sbrRewardSnapshots: () => ({ rewardSnapshot: 0n, status: 0n }),
+    userPendingCollateral: () => 0n,
+    userPendingReward: (stake) => stake,
+    userPendingRewardAndCollateral: () => [0n, 0n, 0n],
+};
+
+// Stands in for a pool whose per-account views follow the account's stake, recording each account read;
+// any other view is a global, read from globals
+function pool(views: AccountViews, globals: Record<string, unknown>, stakes: Record<string, bigint>) {
+    const readAccounts: string[] = [];
+    const contract = new Proxy({}, {
+        get: (_, name: string) => {
+            const view = views[name];
+            if (!view) {
+                return async () => globals[name] ?? 0n;
+            }
+            return async (address: string) => {
+                readAccounts.push(`${name}(${address})`);
+                return view(stakes[address] ?? 0n);
+            };
+        },
+    }) as unknown as ethers.Contract;
+    return { contract, readAccounts, stakes, globals };
+}
+
+describe("refreshDfireStaking", () => {
+    const actors = [actor(ALICE), actor(BOB)];
+
+    it("re-reads only the touched accounts while the reward totals stay put", async () => {
+        const staking = pool(STAKING_VIEWS, { totalRewardPerToken: 5n }, { [ALICE]: 1n, [BOB]: 2n });
+        const previous = await takedfireStakingContractSnapshot(staking.contract, actors);
+        staking.stakes[ALICE] = 10n;
+        staking.stakes[BOB] = 20n;
+        staking.globals.totalStake = 30n;
+        staking.readAccounts.length = 0;
+
+        const refreshed = await refreshDfireStaking(staking.contract, previous, actors, {}, touchedAccounts(BOB));
+        expect(staking.readAccounts).to.deep.equal([`getStake(${BOB})`, `userPendingReward(${BOB})`]);
+        expect(refreshed.totalStake).to.equal(30n);
+        expect([refreshed.stakes[ALICE].stake, refreshed.stakes[BOB].stake]).to.deep.equal([1n, 20n]);
+        expect(Object.keys(refreshed.userPendingRewards)).to.deep.equal([ALICE, BOB]);
+    });
+
+    it("re-reads every account once a reward total moved", async () => {
+        const staking = pool(STAKING_VIEWS, { totalRewardPerToken: 5n }, { [ALICE]: 1n, [BOB]: 2n });
+        const previous = await takedfireStakingContractSnapshot(staking.contract, actors);
+        staking.globals.totalRewardPerToken = 6n;
+        staking.stakes[ALICE] = 10n;
+
+        const refreshed = await refreshDfireStaking(staking.contract, previous, actors, {}, touchedAccounts());
+        expect(refreshed.userPendingRewards[ALICE].pendingRewardAmount).to.equal(10n);
+        expect(refreshed).to.deep.equal(await takedfireStakingContractSnapshot(staking.contract, actors));
+    });
+
+    it("reads accounts the previous snapshot did not have", async () => {
+        const staking = pool(STAKING_VIEWS, {}, { [ALICE]: 1n, [BOB]: 2n });
+        const previous = await takedfireStakingContractSnapshot(staking.contract, [actors[0]]);
+        const refreshed = await refreshDfireStaking(staking.contract, previous, actors, {}, touchedAccounts());
+        expect(refreshed.stakes[BOB].stake).to.equal(2n);
+    });
+});
+
+describe("refreshStabilityPool", () => {
+    const actors = [actor(ALICE), actor(BOB)];
+
+    it("re-reads only the touched depositors while the pool's accumulators stay put", async () => {
+        const stabilityPool = pool(STABILITY_POOL_VIEWS, { stakeScalingFactor: 10n }, { [ALICE]: 1n, [BOB]: 2n });
+        const previous = await takestabilityPoolContractSnapshot(stabilityPool.contract, actors);
+        stabilityPool.stakes[ALICE] = 10n;
+        stabilityPool.stakes[BOB] = 20n;
+        stabilityPool.globals.totalStakedRaw = 30n;
+        stabilityPool.readAccounts.length = 0;
+
+        const refreshed = await refreshStabilityPool(stabilityPool.contract, previous, actors, touchedAccounts(ALICE));
+        expect(stabilityPool.readAccounts.every((read) => read.endsWith(`(${ALICE})`))).to.equal(true);
+        expect(stabilityPool.readAccounts).to.have.length(Object.keys(STABILITY_POOL_VIEWS).length);
+        expect(refreshed.totalStakedRaw).to.equal(30n);
+        expect([refreshed.users[ALICE].stake, refreshed.users[BOB].stake]).to.deep.equal([10n, 2n]);
+    });
+
+    it("re-reads every depositor once the stake scaling moved", async () => {
+        const stabilityPool = pool(STABILITY_POOL_VIEWS, { stakeScalingFactor: 10n }, { [ALICE]: 1n, [BOB]: 2n });
+        const previous = await takestabilityPoolContractSnapshot(stabilityPool.contract, actors);
+        stabilityPool.globals.stakeScalingFactor = 5n;
+        stabilityPool.stakes[BOB] = 20n;
+
+        const refreshed = await refreshStabilityPool(stabilityPool.contract, previous, actors, touchedAccounts());
+        expect(refreshed).to.deep.equal(await takestabilityPoolContractSnapshot(stabilityPool.contract, actors));
+    });
+});
@@ -0,0 +1,78 @@
+import { expect } from "chai";
+import { OrderedDoublyLinkedListSnapshot } from "../contracts/snapshot_interfaces";
+import { walkOrderedListSnapshot } from "../invariants/ordered_list";
+
+// Builds a well-formed list from [id, value] pairs in list order
+function listOf(entries: [bigint, bigint][]): OrderedDoublyLinkedListSnapshot {
+    const nodes: OrderedDoublyLinkedListSnapshot["nodes"] = {};
+    entries.forEach(([id, value], i) => {
+        nodes[id.toString()] = {
+            value,
+            prev: i > 0 ? entries[i - 1][0] : 0n,
+            next: i < entries.length - 1 ? entries[i + 1][0] : 0n,
+        };
+    });
+    return {
+        headId: entries.length > 0 ? entries[0][0] : 0n,
+        tailId: entries.length > 0 ? entries[entries.length - 1][0] : 0n,
+        nodes,
+    };
+}
+
+describe("walkOrderedListSnapshot", () => {
+    it("walks an empty list", () => {
+        expect(walkOrderedListSnapshot(listOf([]))).to.deep.equal({ members: [], violations: [] });
+    });
+
+    it("walks a well-formed list in order", () => {
+        const walk = walkOrderedListSnapshot(listOf([[3n, 10n], [1n, 10n], [7n, 25n]]));
+        expect(walk).to.deep.equal({ members: [3n, 1n, 7n], violations: [] });
+    });
+
+    it("reports a value below the one before it", () => {
+        const walk = walkOrderedListSnapshot(listOf([[1n, 10n], [2n, 5n]]));
+        expect(walk.violations).to.deep.equal(["node 2 has value 5, below the 10 of node 1 before it"]);
+    });
+
+    it("reports a prev link that does not match the walk", () => {
+        const list = listOf([[1n, 1n], [2n, 2n], [3n, 3n]]);
+        list.nodes["3"].prev = 1n;
+        expect(walkOrderedListSnapshot(list).violations).to.deep.equal(["node 3 has prev 1 but is reached from node 2"]);
+    });
+
+    it("stops at a node missing from the snapshot", () => {
+        const list = listOf([[1n, 1n], [2n, 2n]]);
+        delete list.nodes["2"];
+        const walk = walkOrderedListSnapshot(list);
+        expect(walk.members).to.deep.equal([1n]);
+        expect(walk.violations).to.deep.equal(["node 2 is linked from node 1 but missing from the snapshot"]);
+    });
+
+    it("stops at a cycle", () => {
+        const list = listOf([[1n, 1n], [2n, 2n]]);
+        list.nodes["2"].next = 1n;
+        const walk = walkOrderedListSnapshot(list);
+        expect(walk.members).to.deep.equal([1n, 2n]);
+        expect(walk.violations).to.deep.equal(["node 2 links back to node 1, forming a cycle"]);
+    });
+
+    it("reports a tailId the walk does not end at", () => {
+        const list = listOf([[1n, 1n], [2n, 2n]]);
+        list.tailId = 1n;
+        expect(walkOrderedListSnapshot(list).violations).to.deep.equal(["tailId is 1 but the walk from headId ends at node 2"]);
+    });
+
+    it("reports a node that links into the list but is not reachable", () => {
+        const list = listOf([[1n, 1n], [2n, 2n]]);
+        list.nodes["9"] = { value: 5n, prev: 2n, next: 0n };
+        expect(walkOrderedListSnapshot(list).violations).to.deep.equal([
+            "node 9 links to prev 2 and next 0 but is not reachable from headId",
+        ]);
+    });
+
+    it("ignores unlinked nodes outside the list", () => {
+        const list = listOf([[1n, 1n]]);
+        list.nodes["9"] = { value: 0n, prev: 0n, next: 0n };
+        expect(walkOrderedListSnapshot(list).violations).to.deep.equal([]);
+    });
+});
@@ -0,0 +1,77 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Snapshot } from "@svylabs/ilumina";
+import { deserializeSnapshot, loadSnapshots, serializeSnapshot, SnapshotRecorder } from "../snapshots/persistence";
+
+const ALICE = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+
+function snapshotWith(totalDebt: bigint): Snapshot {
+    return {
+        contractSnapshot: {
+            stableBaseCDP: {
+                totalDebt,
+                safeDetails: { "12": { borrowedAmount: -1n, weight: 0n } },
+                safeDiscovery: { [ALICE]: ["12"] },
+            },
+            dfidToken: { tokenName: "DFID", accountBalances: { [ALICE]: 2n ** 255n } },
+        },
+        accountSnapshot: { [ALICE]: 10000n * 10n ** 18n },
+        blockNumber: 42,
+    } as unknown as Snapshot;
+}
+
+describe("snapshot persistence", () => {
+    describe("serializeSnapshot", () => {
+        it("round-trips bigints exactly, whatever their size or sign", () => {
+            const snapshot = snapshotWith(123456789012345678901234567890n);
+            expect(deserializeSnapshot(serializeSnapshot(snapshot))).to.deep.equal(snapshot);
+        });
+
+        it("writes a single line", () => {
+            expect(serializeSnapshot(snapshotWith(1n))).not.to.include("\n");
+        });
+
+        it("keeps the checksum casing of addresses", () => {
+            const restored = deserializeSnapshot(serializeSnapshot(snapshotWith(1n)));
+            expect(Object.keys(restored.accountSnapshot)).to.deep.equal([ALICE]);
+        });
+
+        it("leaves objects that only look like tagged bigints alone", () => {
+            const snapshot = { contractSnapshot: { note: { $bigint: "1", other: 2 } }, accountSnapshot: {} } as unknown as Snapshot;
+            expect(deserializeSnapshot(serializeSnapshot(snapshot))).to.deep.equal(snapshot);
+        });
+    });
+
+    describe("SnapshotRecorder", () => {
+        let directory: string;
+
+        beforeEach(() => {
+            directory = fs.mkdtempSync(path.join(os.tmpdir(), "snapshots-"));
+        });
+
+        afterEach(() => {
+            fs.rmSync(directory, { recursive: true, force: true });
+        });
+
+        it("writes records that loadSnapshots reads back in order", () => {
+            const file = path.join(directory, "run", "snapshots.jsonl");
+            const recorder = new SnapshotRecorder(file);
+            recorder.record(snapshotWith(1n));
+            recorder.record(snapshotWith(2n));
+
+            const records = loadSnapshots(file);
+            expect(records.map((record) => record.index)).to.deep.equal([0, 1]);
+            expect(records.map((record) => record.snapshot)).to.deep.equal([snapshotWith(1n), snapshotWith(2n)]);
+            expect(Number.isNaN(Date.parse(records[0].recordedAt))).to.equal(false);
+        });
+
+        it("truncates the file it is given", () => {
+            const file = path.join(directory, "snapshots.jsonl");
+            fs.writeFileSync(file, "left over from an earlier run\n");
+            new SnapshotRecorder(file).record(snapshotWith(3n));
+            expect(loadSnapshots(file)).to.have.length(1);
+        });
+    });
+});
@@ -0,0 +1,56 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { OrderedListWalks, discoverSafes, walkOrderedList } from "../contracts/safe_discovery";
+
+// An OrderedDoublyLinkedList holding the given IDs in order, counting the walks made over it
+function orderedList(address: string, ids: bigint[]) {
+    const list = {
+        target: address,
+        walks: 0,
+        getHead: async () => {
+            list.walks++;
+            return ids[0] ?? 0n;
+        },
+        nodes: async (id: bigint) => ({ next: ids[ids.indexOf(id) + 1] ?? 0n }),
+    };
+    return list;
+}
+
+const LIQUIDATION = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+const REDEMPTION = "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512";
+const noEvents = { queryFilter: async () => [] } as unknown as ethers.Contract;
+
+describe("walkOrderedList", () => {
+    it("returns the node IDs from head to tail", async () => {
+        expect(await walkOrderedList(orderedList(LIQUIDATION, [3n, 1n, 2n]) as unknown as ethers.Contract)).to.deep.equal([3n, 1n, 2n]);
+    });
+
+    it("stops at the first repeated node", async () => {
+        const looping = { target: LIQUIDATION, getHead: async () => 1n, nodes: async (id: bigint) => ({ next: id === 1n ? 2n : 1n }) };
+        expect(await walkOrderedList(looping as unknown as ethers.Contract)).to.deep.equal([1n, 2n]);
+    });
+});
+
+describe("OrderedListWalks", () => {
+    it("walks each list once, however many times its node IDs are asked for", async () => {
+        const liquidation = orderedList(LIQUIDATION, [1n, 2n]);
+        const redemption = orderedList(REDEMPTION, [2n, 1n]);
+        const listWalks = new OrderedListWalks();
+
+        const discovered = await discoverSafes(noEvents, [],
+            liquidation as unknown as ethers.Contract, redemption as unknown as ethers.Contract, undefined, listWalks);
+        expect(await listWalks.nodeIds(liquidation as unknown as ethers.Contract)).to.deep.equal([1n, 2n]);
+        expect(await listWalks.nodeIds(redemption as unknown as ethers.Contract)).to.deep.equal([2n, 1n]);
+
+        expect([liquidation.walks, redemption.walks]).to.deep.equal([1, 1]);
+        expect([...discovered.get(1n)!]).to.deep.equal(["liquidationQueue", "redemptionQueue"]);
+    });
+
+    it("tells lists apart by address, whatever the case", async () => {
+        const list = orderedList(LIQUIDATION, [1n]);
+        const listWalks = new OrderedListWalks();
+        await listWalks.nodeIds(list as unknown as ethers.Contract);
+        await listWalks.nodeIds({ ...list, target: LIQUIDATION.toLowerCase() } as unknown as ethers.Contract);
+        expect(list.walks).to.equal(1);
+    });
+});
@@ -0,0 +1,97 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { StableBaseCDPSnapshot } from "../contracts/snapshot_interfaces";
+import { InvariantContext } from "../invariants/engine";
+import { SafeOwnershipTracker, createSafeOwnershipInvariants } from "../invariants/safe_ownership";
+import { ALICE, BOB, decodedEvent } from "./fixtures";
+
+function transfer(from: string, to: string, tokenId: bigint) {
+    return decodedEvent("stableBaseCDP", "Transfer", { from, to, tokenId });
+}
+
+function cdp(fields: Partial<StableBaseCDPSnapshot> = {}): StableBaseCDPSnapshot {
+    return { safeOwner: {}, balanceOfSafes: {}, safeApprovedAddress: {}, safeDetails: {}, ...fields } as StableBaseCDPSnapshot;
+}
+
+describe("SafeOwnershipTracker", () => {
+    it("seeds the owners from the first snapshot recorded, lowercased", () => {
+        const tracker = new SafeOwnershipTracker();
+        tracker.record(0, [], cdp({ safeOwner: { "1": ALICE, "2": ethers.ZeroAddress } }));
+        expect([...tracker.owners]).to.deep.equal([["1", ALICE.toLowerCase()]]);
+    });
+
+    it("seeds only once", () => {
+        const tracker = new SafeOwnershipTracker();
+        tracker.record(0, [], cdp());
+        tracker.record(1, [], cdp({ safeOwner: { "1": ALICE } }));
+        expect(tracker.owners.size).to.equal(0);
+    });
+
+    it("follows mints, transfers and burns", () => {
+        const tracker = new SafeOwnershipTracker();
+        tracker.record(0, [], cdp({ safeOwner: { "1": ALICE } }));
+        tracker.record(1, [transfer(ethers.ZeroAddress, BOB, 2n), transfer(ALICE, BOB, 1n)], cdp());
+        expect([...tracker.owners]).to.deep.equal([["1", BOB.toLowerCase()], ["2", BOB.toLowerCase()]]);
+
+        tracker.record(2, [transfer(BOB, ethers.ZeroAddress, 1n)], cdp());
+        expect([...tracker.owners.keys()]).to.deep.equal(["2"]);
+        expect([...tracker.burned]).to.deep.equal(["1"]);
+    });
+
+    it("applies a step recorded by several invariants once", () => {
+        const tracker = new SafeOwnershipTracker();
+        const events = [transfer(BOB, ethers.ZeroAddress, 1n)];
+        tracker.record(0, [], cdp({ safeOwner: { "1": BOB } }));
+        tracker.record(1, events, cdp());
+        tracker.record(1, [transfer(ethers.ZeroAddress, ALICE, 1n)], cdp());
+        expect(tracker.owners.has("1")).to.equal(false);
+        expect([...tracker.burned]).to.deep.equal(["1"]);
+    });
+
+    it("ignores Transfers of other contracts", () => {
+        const tracker = new SafeOwnershipTracker();
+        tracker.record(0, [decodedEvent("dfidToken", "Transfer", { from: ethers.ZeroAddress, to: ALICE, value: 1n })], cdp());
+        expect(tracker.owners.size).to.equal(0);
+    });
+});
+
+describe("safe ownership invariants", () => {
+    function checkAll(tracker: SafeOwnershipTracker, step: number, events: ReturnType<typeof transfer>[], stableBaseCDP: StableBaseCDPSnapshot) {
+        const context = { step, events, transactions: [], snapshot: { contractSnapshot: { stableBaseCDP } } } as unknown as InvariantContext;
+        return Object.fromEntries(createSafeOwnershipInvariants(tracker).map((invariant) => [invariant.name, invariant.check(context)]));
+    }
+
+    it("hold for safes whose owners and balances follow their Transfers", () => {
+        const tracker = new SafeOwnershipTracker();
+        checkAll(tracker, 0, [], cdp());
+        const results = checkAll(tracker, 1, [transfer(ethers.ZeroAddress, ALICE, 1n)], cdp({
+            safeOwner: { "1": ALICE },
+            balanceOfSafes: { [ALICE]: 1n },
+        }));
+        expect(results).to.deep.equal({ "cdp-safe-balances": [], "cdp-burned-safes-cleared": [], "cdp-safe-owner-matches-transfers": [] });
+    });
+
+    it("report a burned safe that still has an owner and details", () => {
+        const tracker = new SafeOwnershipTracker();
+        checkAll(tracker, 0, [], cdp({ safeOwner: { "1": ALICE }, balanceOfSafes: { [ALICE]: 1n } }));
+        const results = checkAll(tracker, 1, [transfer(ALICE, ethers.ZeroAddress, 1n)], cdp({
+            safeOwner: { "1": ALICE },
+            balanceOfSafes: { [ALICE]: 1n },
+            safeDetails: { "1": { collateralAmount: 5n, borrowedAmount: 0n, weight: 0n } } as unknown as StableBaseCDPSnapshot["safeDetails"],
+        }));
+        expect(results["cdp-burned-safes-cleared"]).to.deep.equal([
+            `burned safe 1 is still owned by ${ALICE}`,
+            "burned safe 1 still has collateral 5, debt 0 and weight 0",
+        ]);
+        expect(results["cdp-safe-owner-matches-transfers"]).to.deep.equal([]);
+    });
+
+    it("report an owner the Transfers do not explain", () => {
+        const tracker = new SafeOwnershipTracker();
+        checkAll(tracker, 0, [], cdp({ safeOwner: { "1": ALICE }, balanceOfSafes: { [ALICE]: 1n } }));
+        const results = checkAll(tracker, 1, [], cdp({ safeOwner: { "1": BOB }, balanceOfSafes: { [BOB]: 1n } }));
+        expect(results["cdp-safe-owner-matches-transfers"]).to.deep.equal([
+            `safe 1 is owned by ${BOB}, but was last transferred to ${ALICE.toLowerCase()}`,
+        ]);
+    });
+});
@@ -0,0 +1,91 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { checkContractSnapshot, contractSnapshotSchema, formatSchemaReport, hasSchemaProblems } from "../contracts/snapshot_schema";
+
+const OWNER = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const ORACLE = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+
+function oracleSnapshot(fields: Record<string, unknown> = {}) {
+    return {
+        currentPrice: 2000n,
+        lastGoodPriceValue: 2000n,
+        fetchedPrice: 2000n,
+        contractOwner: OWNER,
+        wiring: { owner: ethers.ZeroAddress, links: {} },
+        ...fields,
+    };
+}
+
+// Every contract but the oracle is left out, so only the oracle's problems are looked at
+function oracleReport(oracle: Record<string, unknown>) {
+    const report = checkContractSnapshot({ mockPriceOracle: oracle });
+    return { ...report, missingFields: report.missingFields.filter((path) => path.startsWith("mockPriceOracle")) };
+}
+
+describe("snapshot schema", () => {
+    it("reports every contract missing from the snapshot", () => {
+        const report = checkContractSnapshot({});
+        expect(report.missingFields).to.have.members(Object.keys(contractSnapshotSchema));
+        expect(report.typeMismatches).to.deep.equal([]);
+    });
+
+    it("accepts a contract that matches its schema", () => {
+        const report = oracleReport(oracleSnapshot());
+        expect(report.missingFields).to.deep.equal([]);
+        expect(report.typeMismatches).to.deep.equal([]);
+    });
+
+    it("reports missing fields by path", () => {
+        const oracle = oracleSnapshot();
+        delete (oracle as Record<string, unknown>).fetchedPrice;
+        expect(oracleReport(oracle).missingFields).to.deep.equal(["mockPriceOracle.fetchedPrice"]);
+    });
+
+    it("reports values of the wrong type", () => {
+        const report = oracleReport(oracleSnapshot({ currentPrice: 2000, contractOwner: "not an address" }));
+        expect(report.typeMismatches).to.deep.equal([
+            { path: "mockPriceOracle.currentPrice", expected: "bigint", actual: "number" },
+            { path: "mockPriceOracle.contractOwner", expected: "address", actual: "string \"not an address\"" },
+        ]);
+    });
+
+    it("checks every entry of a record", () => {
+        const report = oracleReport(oracleSnapshot({ wiring: { owner: OWNER, links: { stableBaseCDP: OWNER, stabilityPool: "0x1" } } }));
+        expect(report.typeMismatches).to.deep.equal([
+            { path: "mockPriceOracle.wiring.links.stabilityPool", expected: "address", actual: "string \"0x1\"" },
+        ]);
+    });
+
+    it("names the contract of each failed read", () => {
+        const contracts = { mockPriceOracle: { target: ORACLE } as unknown as ethers.Contract };
+        const failedReads = [
+            { target: ORACLE.toLowerCase(), method: "fetchPrice", args: [], reason: "reverted" },
+            { target: OWNER, method: "balanceOf", args: [OWNER], reason: "no code" },
+        ];
+        const report = checkContractSnapshot({}, failedReads, contracts);
+        expect(report.fallbacks.map((fallback) => fallback.contract)).to.deep.equal(["mockPriceOracle", OWNER]);
+    });
+
+    describe("formatSchemaReport", () => {
+        it("writes one section per kind of problem and leaves out empty ones", () => {
+            const report = {
+                missingFields: ["mockPriceOracle.fetchedPrice"],
+                typeMismatches: [],
+                fallbacks: [{ contract: "dfidToken", target: OWNER, method: "balanceOf", args: [OWNER], reason: "reverted" }],
+            };
+            expect(hasSchemaProblems(report)).to.equal(true);
+            expect(formatSchemaReport(report)).to.equal([
+                "Missing fields (1):",
+                "  mockPriceOracle.fetchedPrice",
+                "Fell back to defaults (1):",
+                `  dfidToken.balanceOf(${OWNER}): reverted`,
+            ].join("\n"));
+        });
+
+        it("has nothing to report for an empty report", () => {
+            const report = { missingFields: [], typeMismatches: [], fallbacks: [] };
+            expect(hasSchemaProblems(report)).to.equal(false);
+            expect(formatSchemaReport(report)).to.equal("");
+        });
+    });
+});
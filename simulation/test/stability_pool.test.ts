@@ -0,0 +1,134 @@
+import { expect } from "chai";
+import { IStabilityPoolUserInfo, StabilityPoolSnapshot } from "../contracts/snapshot_interfaces";
+import { InvariantContext } from "../invariants/engine";
+import { DecodedEvent } from "../invariants/events";
+import { SBR_DISTRIBUTION_STARTED, StabilityPoolRewardTracker, createStabilityPoolInvariants, effectiveStake, sbrEmissionDue } from "../invariants/stability_pool";
+import { ALICE, BOB, contractAt, decodedEvent } from "./fixtures";
+
+const PRECISION = 10n ** 18n;
+const POOL = "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512";
+
+function pool(fields: Partial<StabilityPoolSnapshot> = {}): StabilityPoolSnapshot {
+    return {
+        precision: PRECISION,
+        stakeScalingFactor: PRECISION,
+        stakeResetCount: 0n,
+        stakeResetSnapshots: [],
+        users: {},
+        userPendingReward: {},
+        userPendingCollateral: {},
+        ...fields,
+    } as StabilityPoolSnapshot;
+}
+
+function user(stake: bigint, cumulativeProductScalingFactor: bigint, stakeResetCount = 0n): IStabilityPoolUserInfo {
+    return { stake, rewardSnapshot: 0n, collateralSnapshot: 0n, cumulativeProductScalingFactor, stakeResetCount };
+}
+
+function resetAt(scalingFactor: bigint) {
+    return { scalingFactor, totalRewardPerToken: 0n, totalCollateralPerToken: 0n, totalSBRRewardPerToken: 0n };
+}
+
+describe("effectiveStake", () => {
+    it("is the raw stake of a depositor with no scaling factor recorded", () => {
+        expect(effectiveStake(user(1000n, 0n), pool({ stakeScalingFactor: PRECISION / 2n }))).to.equal(1000n);
+    });
+
+    it("scales the stake by the pool's factor since the depositor's last update", () => {
+        expect(effectiveStake(user(1000n, PRECISION), pool({ stakeScalingFactor: PRECISION / 2n }))).to.equal(500n);
+        expect(effectiveStake(user(1000n, PRECISION / 2n), pool({ stakeScalingFactor: PRECISION / 4n }))).to.equal(500n);
+    });
+
+    it("scales by the reset the depositor saw and the pool's factor after one reset", () => {
+        const current = pool({ stakeResetCount: 1n, stakeScalingFactor: PRECISION / 2n, stakeResetSnapshots: [resetAt(PRECISION / 5n)] });
+        expect(effectiveStake(user(1000n, PRECISION), current)).to.equal(100n);
+    });
+
+    it("scales by the reset the depositor saw and the next one after several resets", () => {
+        const current = pool({
+            stakeResetCount: 3n,
+            stakeScalingFactor: PRECISION / 2n,
+            stakeResetSnapshots: [resetAt(PRECISION / 5n), resetAt(PRECISION / 4n), resetAt(PRECISION / 10n)],
+        });
+        expect(effectiveStake(user(1000n, PRECISION), current)).to.equal(50n);
+    });
+
+    it("throws when a reset the depositor refers to is not snapshotted", () => {
+        expect(() => effectiveStake(user(1000n, PRECISION), pool({ stakeResetCount: 1n })))
+            .to.throw("stake reset 0 is not in stakeResetSnapshots (0 resets)");
+        expect(() => effectiveStake(user(1000n, PRECISION), pool({ stakeResetCount: 2n, stakeResetSnapshots: [resetAt(PRECISION)] })))
+            .to.throw("stake reset 1 is not in stakeResetSnapshots (1 resets)");
+    });
+});
+
+describe("sbrEmissionDue", () => {
+    const running = pool({
+        sbrRewardDistributionStatus: SBR_DISTRIBUTION_STARTED,
+        lastSBRRewardDistributedTime: 1000n,
+        sbrRewardDistributionEndTime: 5000n,
+        sbrDistributionRate: 3n,
+    });
+
+    it("is the rate for every second since the last distribution", () => {
+        expect(sbrEmissionDue(running, 1600n)).to.equal(1800n);
+    });
+
+    it("stops at the end of the schedule", () => {
+        expect(sbrEmissionDue(running, 9000n)).to.equal(12000n);
+    });
+
+    it("is zero at or before the last distribution", () => {
+        expect(sbrEmissionDue(running, 1000n)).to.equal(0n);
+        expect(sbrEmissionDue(running, 900n)).to.equal(0n);
+    });
+
+    it("is zero unless the schedule is running", () => {
+        expect(sbrEmissionDue({ ...running, sbrRewardDistributionStatus: 0n }, 1600n)).to.equal(0n);
+        expect(sbrEmissionDue({ ...running, sbrRewardDistributionStatus: 2n }, 1600n)).to.equal(0n);
+    });
+});
+
+describe("StabilityPoolRewardTracker", () => {
+    const income: DecodedEvent[] = [
+        decodedEvent("stabilityPool", "RewardAdded", { rewardAmount: 100n }),
+        decodedEvent("stabilityPool", "LiquidationPerformed", { debt: 7n, collateral: 20n }),
+        decodedEvent("stabilityPool", "CollateralRewardAdded", { amount: 5n }),
+        decodedEvent("stabilityPool", "RewardClaimed", { user: ALICE, totalReward: 30n, totalCollateral: 4n }),
+        decodedEvent("dfireStaking", "RewardAdded", { rewardAmount: 1000n }),
+    ];
+
+    it("sums the pool's income and its depositors' claims", () => {
+        const tracker = new StabilityPoolRewardTracker();
+        tracker.record(1, income);
+        expect([tracker.addedReward, tracker.addedCollateral, tracker.claimedReward, tracker.claimedCollateral])
+            .to.deep.equal([100n, 25n, 30n, 4n]);
+    });
+
+    it("applies a step recorded twice once", () => {
+        const tracker = new StabilityPoolRewardTracker();
+        tracker.record(1, income);
+        tracker.record(1, income);
+        tracker.record(2, [decodedEvent("stabilityPool", "RewardAdded", { rewardAmount: 1n })]);
+        expect(tracker.addedReward).to.equal(101n);
+    });
+});
+
+describe("stability-pool-no-over-distribution", () => {
+    function check(tracker: StabilityPoolRewardTracker, step: number, events: DecodedEvent[], pending: Record<string, bigint>): string[] {
+        const invariant = createStabilityPoolInvariants({ stabilityPool: contractAt(POOL) }, tracker)
+            .find((candidate) => candidate.name === "stability-pool-no-over-distribution")!;
+        const stabilityPool = pool({ userPendingReward: pending });
+        return invariant.check({ step, events, transactions: [], snapshot: { contractSnapshot: { stabilityPool } } } as unknown as InvariantContext);
+    }
+
+    it("holds while claims and pending rewards stay within what was added", () => {
+        const tracker = new StabilityPoolRewardTracker();
+        expect(check(tracker, 1, [decodedEvent("stabilityPool", "RewardAdded", { rewardAmount: 100n })], { [ALICE]: 60n, [BOB]: 40n })).to.deep.equal([]);
+    });
+
+    it("reports depositors owed more than was added", () => {
+        const tracker = new StabilityPoolRewardTracker();
+        expect(check(tracker, 1, [decodedEvent("stabilityPool", "RewardAdded", { rewardAmount: 100n })], { [ALICE]: 101n }))
+            .to.deep.equal(["depositors claimed 0 and are owed 101 DFID, but only 100 was added"]);
+    });
+});